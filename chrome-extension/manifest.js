@@ -40,7 +40,17 @@ const manifest = withSidePanel({
   version: packageJson.version,
   description: '__MSG_extensionDescription__',
   host_permissions: ['<all_urls>'],
-  permissions: ['storage', 'scripting', 'tabs', 'activeTab', 'debugger'],
+  permissions: [
+    'storage',
+    'unlimitedStorage',
+    'scripting',
+    'tabs',
+    'activeTab',
+    'debugger',
+    'downloads',
+    'tabGroups',
+    'webNavigation',
+  ],
   options_page: 'options/index.html',
   background: {
     service_worker: 'background.iife.js',
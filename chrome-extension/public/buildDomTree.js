@@ -1,6 +1,26 @@
-window.buildDomTree = (args = { doHighlightElements: true, focusHighlightIndex: -1, viewportExpansion: 0 }) => {
-  const { doHighlightElements, focusHighlightIndex, viewportExpansion } = args;
-  let highlightIndex = 0; // Reset highlight index
+// Path of the current frame from the top frame, as indices into each parent's window.frames.
+// Comparing window proxies is allowed across origins, so this also works in cross-origin frames.
+window.getFramePath = () => {
+  const path = [];
+  let current = window;
+  while (current !== window.top) {
+    const parent = current.parent;
+    let index = 0;
+    while (index < parent.frames.length && parent.frames[index] !== current) {
+      index++;
+    }
+    path.unshift(index);
+    current = parent;
+  }
+  return path;
+};
+
+window.buildDomTree = (
+  args = { doHighlightElements: true, focusHighlightIndex: -1, viewportExpansion: 0, startHighlightIndex: 0 },
+) => {
+  const { doHighlightElements, focusHighlightIndex, viewportExpansion, startHighlightIndex = 0 } = args;
+  // Each frame is extracted separately, indices continue from the frames extracted before
+  let highlightIndex = startHighlightIndex;
 
   // Quick check to confirm the script receives focusHighlightIndex
   console.log('focusHighlightIndex:', focusHighlightIndex);
@@ -585,21 +605,11 @@ window.buildDomTree = (args = { doHighlightElements: true, focusHighlightIndex:
 
     // Handle iframes
     if (node.tagName === 'IFRAME') {
-      try {
-        const iframeDoc = node.contentDocument || node.contentWindow?.document;
-        if (iframeDoc && iframeDoc.body) {
-          const iframeChildren = Array.from(iframeDoc.body.childNodes)
-            .map(child => buildDomTree(child, node))
-            .filter(child => child !== null);
-          nodeData.children.push(...iframeChildren);
-        }
-        // If we can't access the iframe content, we just skip adding children
-        // This prevents phantom elements from being indexed
-      } catch (e) {
-        // Cross-origin iframes cannot be accessed - this is expected behavior
-        // Silently skip adding children for inaccessible iframes
-        // The iframe element itself will still be in the tree, but without children
-        nodeData.iframeAccessible = false;
+      // The content of every frame, including cross-origin ones, is extracted by its own buildDomTree call
+      // and attached to the iframe element afterwards, so only record which frame the iframe holds
+      const frameIndex = Array.prototype.indexOf.call(window.frames, node.contentWindow);
+      if (frameIndex >= 0) {
+        nodeData.frameIndex = frameIndex;
       }
     } else {
       const children = Array.from(node.childNodes)
@@ -0,0 +1,76 @@
+import type { ApprovalRule } from '@extension/storage';
+
+/**
+ * An action the navigator is about to run
+ */
+export interface ApprovalRequest {
+  actionName: string;
+  // text of the element the action targets, empty if the action has no target element
+  label: string;
+  // url of the current page
+  url: string;
+}
+
+// Actions that click at a position of the page, they match the rules of click_element too
+const COORDINATE_CLICK_ACTIONS = ['click_coordinates', 'drag_and_drop'];
+
+/**
+ * Check if a rule applies to an action
+ */
+function matchesAction(rule: ApprovalRule, actionName: string): boolean {
+  if (rule.actions.length === 0 || rule.actions.includes(actionName)) {
+    return true;
+  }
+  return COORDINATE_CLICK_ACTIONS.includes(actionName) && rule.actions.includes('click_element');
+}
+
+/**
+ * Check if a hostname is the given domain or one of its subdomains
+ */
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase().replace(/^\*\./, '');
+  if (!normalized) {
+    return false;
+  }
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+/**
+ * Decides which navigator actions need to be approved by the user before they run
+ */
+export class ApprovalPolicy {
+  private readonly rules: ApprovalRule[];
+
+  constructor(rules: ApprovalRule[]) {
+    this.rules = rules.filter(rule => rule.enabled);
+  }
+
+  /**
+   * Find the first rule that matches the action
+   * @param request - The action to check
+   * @returns The matching rule, or null if the action can run without approval
+   */
+  match(request: ApprovalRequest): ApprovalRule | null {
+    let hostname = '';
+    try {
+      hostname = new URL(request.url).hostname.toLowerCase();
+    } catch {
+      // not a valid url, only rules without domains can match
+    }
+    const label = request.label.toLowerCase();
+
+    for (const rule of this.rules) {
+      if (!matchesAction(rule, request.actionName)) {
+        continue;
+      }
+      if (rule.domains.length > 0 && !rule.domains.some(domain => matchesDomain(hostname, domain))) {
+        continue;
+      }
+      if (rule.labels.length > 0 && !rule.labels.some(keyword => keyword && label.includes(keyword.toLowerCase()))) {
+        continue;
+      }
+      return rule;
+    }
+    return null;
+  }
+}
@@ -3,10 +3,14 @@ import {
   clickElementActionSchema,
   doneActionSchema,
   extractContentActionSchema,
+  extractStructuredActionSchema,
+  saveFileActionSchema,
   goBackActionSchema,
   goToUrlActionSchema,
   inputTextActionSchema,
   openTabActionSchema,
+  closeTabActionSchema,
+  listTabsActionSchema,
   searchGoogleActionSchema,
   switchTabActionSchema,
   type ActionSchema,
@@ -17,15 +21,52 @@ import {
   cacheContentActionSchema,
   selectDropdownOptionActionSchema,
   getDropdownOptionsActionSchema,
+  clickCoordinatesActionSchema,
+  dragAndDropActionSchema,
+  hoverActionSchema,
+  uploadFileActionSchema,
+  readDownloadActionSchema,
+  handleDialogActionSchema,
+  getNetworkResponsesActionSchema,
+  waitForActionSchema,
 } from './schemas';
 import { z } from 'zod';
 import { createLogger } from '@src/background/log';
 import { PromptTemplate } from '@langchain/core/prompts';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ExecutionState, Actors } from '../event/types';
+import { URLNotAllowedError } from '@src/background/browser/context';
+import type { PageDialog } from '@src/background/browser/types';
+import type Page from '@src/background/browser/page';
+import type { CapturedResponse } from '@src/background/browser/network';
+import {
+  datasetStore,
+  fileAttachmentStore,
+  FileFormatEnum,
+  secretVaultStore,
+  TaskOutputKindEnum,
+  taskOutputStore,
+} from '@extension/storage';
+import { saveFile } from '@src/background/files/downloads';
+import { writeAttachmentToDisk } from '@src/background/files/uploads';
+import { InvalidJsonSchemaError, jsonSchemaToZod, parseJsonOutput, parseJsonSchema } from './structured';
 
 const logger = createLogger('Action');
 
+// Placeholder the navigator uses instead of a secret value, e.g. <secret>github_password</secret>
+const SECRET_PLACEHOLDER_PATTERN = /<secret>(.*?)<\/secret>/g;
+// Extracted data kept in the navigator's memory, the full data is in the dataset
+const MAX_EXTRACTED_PREVIEW_LENGTH = 2000;
+// Content of a downloaded file kept in the navigator's memory
+const MAX_DOWNLOAD_CONTENT_LENGTH = 20000;
+// Network responses returned at once, and their length, so the results fit into the navigator's memory
+const MAX_NETWORK_RESPONSES = 10;
+const MAX_NETWORK_BODY_LENGTH = 4000;
+const MAX_NETWORK_RESULT_LENGTH = 16000;
+// Timeout of the wait_for action, in seconds
+const DEFAULT_WAIT_TIMEOUT = 10;
+const MAX_WAIT_TIMEOUT = 30;
+
 export class InvalidInputError extends Error {
   constructor(message: string) {
     super(message);
@@ -127,12 +168,81 @@ export class ActionBuilder {
     this.extractorLLM = extractorLLM;
   }
 
+  /**
+   * Feed a blocked navigation back to the navigator, so that it can choose another website
+   */
+  private urlNotAllowedResult(error: URLNotAllowedError): ActionResult {
+    this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, error.message);
+    return new ActionResult({ error: error.message, includeInMemory: true });
+  }
+
+  /**
+   * Coordinate actions are only usable when the navigator sees the screenshot
+   */
+  private visionRequiredResult(actionName: string): ActionResult {
+    const msg = `${actionName} needs vision to be enabled, use the element indexes instead`;
+    this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+    return new ActionResult({ error: msg, includeInMemory: true });
+  }
+
+  private mouseActionFailedResult(actionName: string, error: unknown): ActionResult {
+    const msg = `Failed to ${actionName}: ${error instanceof Error ? error.message : String(error)}`;
+    this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+    return new ActionResult({ error: msg, includeInMemory: true });
+  }
+
+  /**
+   * Keep a result of the task, so that the user can export it with the session
+   */
+  private async recordOutput(kind: TaskOutputKindEnum, content: string, url: string | null = null): Promise<void> {
+    try {
+      await taskOutputStore.addOutput(this.context.taskId, { kind, content, url });
+    } catch (error) {
+      logger.error(`Failed to record task output: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Replace secret placeholders with the values of the secrets stored for the domain of the frame the text is input into.
+   * The frame may be a cross-origin iframe, it must not get the secrets of the page embedding it.
+   * @param text - The text to input, may contain <secret>name</secret> placeholders
+   * @param page - The page the text is input into
+   * @param frameId - The frame of the element the text is input into
+   * @returns The text with the secret values filled in
+   */
+  private async fillSecrets(text: string, page: Page, frameId: number): Promise<string> {
+    const names = Array.from(text.matchAll(SECRET_PLACEHOLDER_PATTERN), match => match[1]);
+    if (names.length === 0) {
+      return text;
+    }
+
+    const url = await page.frameUrl(frameId);
+    if (!url) {
+      throw new Error('The url of the frame of the element can not be determined, secrets can not be used');
+    }
+    let hostname = '';
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      // no domain, secrets can not be used
+    }
+    const secrets = await secretVaultStore.getSecretValuesForDomain(hostname);
+    const missing = names.filter(name => secrets[name] === undefined);
+    if (missing.length > 0) {
+      throw new Error(
+        `Secret ${missing.join(', ')} is not available on ${hostname || url}, the vault may be locked or the secret belongs to another domain`,
+      );
+    }
+    return text.replace(SECRET_PLACEHOLDER_PATTERN, (_match, name: string) => secrets[name]);
+  }
+
   buildDefaultActions() {
     const actions = [];
 
     const done = new Action(async (input: z.infer<typeof doneActionSchema.schema>) => {
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, doneActionSchema.name);
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, input.text);
+      await this.recordOutput(TaskOutputKindEnum.FinalAnswer, input.text);
       return new ActionResult({
         isDone: true,
         extractedContent: input.text,
@@ -145,7 +255,14 @@ export class ActionBuilder {
       const msg = `Searching for "${input.query}" in Google`;
       context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, msg);
 
-      await context.browserContext.navigateTo(`https://www.google.com/search?q=${input.query}`);
+      try {
+        await context.browserContext.navigateTo(`https://www.google.com/search?q=${input.query}`);
+      } catch (error) {
+        if (error instanceof URLNotAllowedError) {
+          return this.urlNotAllowedResult(error);
+        }
+        throw error;
+      }
 
       const msg2 = `Searched for "${input.query}" in Google`;
       context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg2);
@@ -192,7 +309,14 @@ export class ActionBuilder {
       const msg = `Navigating to ${input.url}`;
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, msg);
 
-      await this.context.browserContext.navigateTo(input.url);
+      try {
+        await this.context.browserContext.navigateTo(input.url);
+      } catch (error) {
+        if (error instanceof URLNotAllowedError) {
+          return this.urlNotAllowedResult(error);
+        }
+        throw error;
+      }
       const msg2 = `Navigated to ${input.url}`;
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg2);
       return new ActionResult({
@@ -209,6 +333,15 @@ export class ActionBuilder {
 
       const page = await this.context.browserContext.getCurrentPage();
       await page.goBack();
+      try {
+        // the previous page may be on a domain that is not allowed
+        await this.context.browserContext.getCurrentPage();
+      } catch (error) {
+        if (error instanceof URLNotAllowedError) {
+          return this.urlNotAllowedResult(error);
+        }
+        throw error;
+      }
       const msg2 = 'Navigated back';
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg2);
       return new ActionResult({
@@ -242,7 +375,8 @@ export class ActionBuilder {
 
         // Check if element is a file uploader
         if (await page.isFileUploader(elementNode)) {
-          const msg = `Index ${input.index} - has an element which opens file upload dialog. To upload files please use a specific function to upload files`;
+          const attachments = await fileAttachmentStore.getAttachments();
+          const msg = `Index ${input.index} - has an element which opens file upload dialog. To upload files please use the upload_file action, attached files: ${attachments.map(attachment => attachment.name).join(', ') || 'none'}`;
           logger.info(msg);
           return new ActionResult({
             extractedContent: msg,
@@ -265,12 +399,19 @@ export class ActionBuilder {
             // find the tab id that is not in the initial tab ids
             const newTabId = Array.from(currentTabIds).find(id => !initialTabIds.has(id));
             if (newTabId) {
+              this.context.browserContext.trackOpenedTab(newTabId);
               await this.context.browserContext.switchTab(newTabId);
             }
+          } else {
+            // the click may have followed a link to a domain that is not allowed
+            await this.context.browserContext.getCurrentPage();
           }
           this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
           return new ActionResult({ extractedContent: msg, includeInMemory: true });
         } catch (error) {
+          if (error instanceof URLNotAllowedError) {
+            return this.urlNotAllowedResult(error);
+          }
           const msg = `Element no longer available with index ${input.index} - most likely the page changed`;
           this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
           return new ActionResult({
@@ -304,7 +445,9 @@ export class ActionBuilder {
           );
         }
 
-        await page.inputTextElementNode(this.context.options.useVision, elementNode, input.text);
+        // secrets are only filled in here, the LLM never sees their values
+        const text = await this.fillSecrets(input.text, page, elementNode.frameId);
+        await page.inputTextElementNode(this.context.options.useVision, elementNode, text);
         const msg = `Input ${input.text} into index ${input.index}`;
         this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
         return new ActionResult({ extractedContent: msg, includeInMemory: true });
@@ -317,7 +460,14 @@ export class ActionBuilder {
     // Tab Management Actions
     const switchTab = new Action(async (input: z.infer<typeof switchTabActionSchema.schema>) => {
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, `Switching to tab ${input.tab_id}`);
-      await this.context.browserContext.switchTab(input.tab_id);
+      try {
+        await this.context.browserContext.switchTab(input.tab_id);
+      } catch (error) {
+        if (error instanceof URLNotAllowedError) {
+          return this.urlNotAllowedResult(error);
+        }
+        throw error;
+      }
       const msg = `Switched to tab ${input.tab_id}`;
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
       return new ActionResult({ extractedContent: msg, includeInMemory: true });
@@ -326,13 +476,76 @@ export class ActionBuilder {
 
     const openTab = new Action(async (input: z.infer<typeof openTabActionSchema.schema>) => {
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, `Opening ${input.url} in new tab`);
-      await this.context.browserContext.openTab(input.url);
+      try {
+        await this.context.browserContext.openTab(input.url);
+      } catch (error) {
+        if (error instanceof URLNotAllowedError) {
+          return this.urlNotAllowedResult(error);
+        }
+        throw error;
+      }
       const msg = `Opened ${input.url} in new tab`;
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
       return new ActionResult({ extractedContent: msg, includeInMemory: true });
     }, openTabActionSchema);
     actions.push(openTab);
 
+    const closeTab = new Action(async (input: z.infer<typeof closeTabActionSchema.schema>) => {
+      const intent = input.desc || `Closing tab ${input.tab_id}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const browserContext = this.context.browserContext;
+      const tabIds = await browserContext.getAllTabIds();
+      let error: string | null = null;
+      if (!tabIds.has(input.tab_id)) {
+        error = `Tab ${input.tab_id} is not open, use list_tabs to see the open tabs`;
+      } else if (!browserContext.isOpenedTab(input.tab_id)) {
+        error = `Tab ${input.tab_id} was opened by the user, only the tabs you opened can be closed`;
+      } else if (tabIds.size <= 1) {
+        error = `Tab ${input.tab_id} is the last tab and can not be closed`;
+      }
+      if (error) {
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, error);
+        return new ActionResult({ error, includeInMemory: true });
+      }
+
+      const wasCurrentTab = browserContext.getCurrentTabId() === input.tab_id;
+      await browserContext.closeTab(input.tab_id);
+      let msg = `Closed tab ${input.tab_id}`;
+      if (wasCurrentTab) {
+        const page = await browserContext.getCurrentPage();
+        msg += ` - switched to tab ${page.tabId}`;
+      }
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, closeTabActionSchema);
+    actions.push(closeTab);
+
+    const listTabs = new Action(async (input: z.infer<typeof listTabsActionSchema.schema>) => {
+      const intent = input.desc || 'Listing tabs';
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const openedBy = input.opened_by ?? 'all';
+      const currentTabId = this.context.browserContext.getCurrentTabId();
+      const tabs = (await this.context.browserContext.getTabInfos()).filter(
+        tab => openedBy === 'all' || tab.openedByAgent === (openedBy === 'agent'),
+      );
+      const lines = tabs.map(tab => {
+        const flags = [
+          tab.openedByAgent ? 'opened by you' : 'opened by the user',
+          tab.id === currentTabId ? 'current' : null,
+          tab.active ? 'active' : null,
+          tab.loading ? 'loading' : null,
+        ].filter(flag => flag !== null);
+        return `- {id: ${tab.id}, url: ${tab.url}, title: ${tab.title}} (${flags.join(', ')})`;
+      });
+      const scope = openedBy === 'agent' ? ' opened by you' : openedBy === 'user' ? ' opened by the user' : '';
+      const msg = `${tabs.length} open tabs${scope}:\n${lines.join('\n')}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, `Listed ${tabs.length} tabs`);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, listTabsActionSchema);
+    actions.push(listTabs);
+
     // Content Actions
     // TODO: this is not used currently, need to improve on input size
     const extractContent = new Action(async (input: z.infer<typeof extractContentActionSchema.schema>) => {
@@ -347,6 +560,11 @@ export class ActionBuilder {
       try {
         const output = await this.extractorLLM.invoke(prompt);
         const msg = `📄  Extracted from page\n: ${output.content}\n`;
+        await this.recordOutput(
+          TaskOutputKindEnum.ExtractedContent,
+          typeof output.content === 'string' ? output.content : JSON.stringify(output.content),
+          page.url(),
+        );
         return new ActionResult({
           extractedContent: msg,
           includeInMemory: true,
@@ -363,16 +581,105 @@ export class ActionBuilder {
     }, extractContentActionSchema);
     actions.push(extractContent);
 
+    const extractStructured = new Action(async (input: z.infer<typeof extractStructuredActionSchema.schema>) => {
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, `Extracting ${input.goal}`);
+
+      let dataSchema: z.ZodTypeAny;
+      try {
+        dataSchema = jsonSchemaToZod(parseJsonSchema(input.json_schema));
+      } catch (error) {
+        const msg =
+          error instanceof InvalidJsonSchemaError
+            ? error.message
+            : `JSON schema is not supported: ${error instanceof Error ? error.message : String(error)}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+        return new ActionResult({ error: msg, includeInMemory: true });
+      }
+
+      const page = await this.context.browserContext.getCurrentPage();
+      const content = await page.getReadabilityContent();
+      const promptTemplate = PromptTemplate.fromTemplate(
+        'Extract data from the page below. Extraction goal: {goal}\nRespond with JSON only, matching this JSON schema exactly: {schema}\nIf the page has no matching data, respond with the empty value of the schema, e.g. [] for an array. Page: {page}',
+      );
+      const prompt = await promptTemplate.invoke({
+        goal: input.goal,
+        schema: input.json_schema,
+        page: content.content,
+      });
+      let text: string;
+      try {
+        const output = await this.extractorLLM.invoke(prompt);
+        text = typeof output.content === 'string' ? output.content : JSON.stringify(output.content);
+      } catch (error) {
+        const msg = `Failed to extract data from page: ${error instanceof Error ? error.message : String(error)}`;
+        logger.error(msg);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+        return new ActionResult({ error: msg, includeInMemory: true });
+      }
+
+      let parsed: z.SafeParseReturnType<unknown, unknown>;
+      try {
+        parsed = dataSchema.safeParse(parseJsonOutput(text));
+      } catch (error) {
+        const msg = `Extracted data is not valid JSON: ${error}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+        return new ActionResult({ error: msg, includeInMemory: true });
+      }
+      if (!parsed.success) {
+        const msg = `Extracted data does not match the JSON schema: ${parsed.error.message}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+        return new ActionResult({ error: msg, includeInMemory: true });
+      }
+
+      // every item of an array becomes a record, so that data from several pages can be combined
+      const items = Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+      const dataset = await datasetStore.appendRecords(
+        this.context.taskId,
+        input.json_schema,
+        items.map(data => ({ url: page.url(), data })),
+      );
+      const preview = JSON.stringify(parsed.data).slice(0, MAX_EXTRACTED_PREVIEW_LENGTH);
+      const msg = `Extracted ${items.length} records, the dataset has ${dataset.records.length} records: ${preview}`;
+      this.context.emitEvent(
+        Actors.NAVIGATOR,
+        ExecutionState.ACT_OK,
+        `Extracted ${items.length} records, ${dataset.records.length} in total`,
+      );
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, extractStructuredActionSchema);
+    actions.push(extractStructured);
+
     // cache content for future use
     const cacheContent = new Action(async (input: z.infer<typeof cacheContentActionSchema.schema>) => {
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, cacheContentActionSchema.name);
 
       const msg = `Cached findings: ${input.content}`;
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      await this.recordOutput(TaskOutputKindEnum.CachedContent, input.content);
       return new ActionResult({ extractedContent: msg, includeInMemory: true });
     }, cacheContentActionSchema);
     actions.push(cacheContent);
 
+    const saveFileAction = new Action(async (input: z.infer<typeof saveFileActionSchema.schema>) => {
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, `Saving ${input.filename}`);
+      const format = input.format as FileFormatEnum;
+      if (format === FileFormatEnum.Json) {
+        try {
+          JSON.parse(input.content);
+        } catch (error) {
+          const msg = `Content is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+          return new ActionResult({ error: msg, includeInMemory: true });
+        }
+      }
+
+      const file = await saveFile(this.context.taskId, input.filename, input.content, format, 'agent');
+      const msg = `Saved ${file.filename} to the downloads folder`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, saveFileActionSchema);
+    actions.push(saveFileAction);
+
     const scrollDown = new Action(async (input: z.infer<typeof scrollDownActionSchema.schema>) => {
       const todo = input.desc || 'Scroll down the page';
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
@@ -560,6 +867,240 @@ export class ActionBuilder {
     );
     actions.push(selectDropdownOption);
 
+    const uploadFile = new Action(
+      async (input: z.infer<typeof uploadFileActionSchema.schema>) => {
+        const todo = input.desc || `Upload ${input.filename} to element with index ${input.index}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+        const page = await this.context.browserContext.getCurrentPage();
+        const state = await page.getState();
+        const elementNode = state?.selectorMap.get(input.index);
+        if (!elementNode) {
+          const errorMsg = `Element with index ${input.index} does not exist - retry or use alternative actions`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+          return new ActionResult({ error: errorMsg, includeInMemory: true });
+        }
+        if (!page.isFileUploader(elementNode)) {
+          const errorMsg = `Element with index ${input.index} is not a file upload element`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+          return new ActionResult({ error: errorMsg, includeInMemory: true });
+        }
+
+        const attachment = await fileAttachmentStore.getAttachmentByName(input.filename);
+        if (!attachment) {
+          const attachments = await fileAttachmentStore.getAttachments();
+          const errorMsg = `No attached file named ${input.filename}, attached files: ${attachments.map(file => file.name).join(', ') || 'none'}`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+          return new ActionResult({ error: errorMsg, includeInMemory: true });
+        }
+
+        try {
+          const { downloadId, path } = await writeAttachmentToDisk(attachment);
+          // the page reads the file when the form is submitted, it is removed when the task ends
+          this.context.uploadDownloadIds.push(downloadId);
+          await page.uploadFile(elementNode, path);
+        } catch (error) {
+          const errorMsg = `Failed to upload ${input.filename}: ${error instanceof Error ? error.message : String(error)}`;
+          logger.error(errorMsg);
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+          return new ActionResult({ error: errorMsg, includeInMemory: true });
+        }
+        const msg = `Uploaded ${input.filename} to element with index ${input.index}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      },
+      uploadFileActionSchema,
+      true,
+    );
+    actions.push(uploadFile);
+
+    const readDownload = new Action(async (input: z.infer<typeof readDownloadActionSchema.schema>) => {
+      const todo = input.desc || `Read download ${input.filename}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+      let content: string;
+      try {
+        content = await this.context.browserContext.readDownload(input.filename);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      const truncated =
+        content.length > MAX_DOWNLOAD_CONTENT_LENGTH
+          ? `${content.slice(0, MAX_DOWNLOAD_CONTENT_LENGTH)}\n... (${content.length - MAX_DOWNLOAD_CONTENT_LENGTH} more characters)`
+          : content;
+      const msg = `Content of download ${input.filename}:\n${truncated}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, `Read download ${input.filename}`);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, readDownloadActionSchema);
+    actions.push(readDownload);
+
+    const handleDialog = new Action(async (input: z.infer<typeof handleDialogActionSchema.schema>) => {
+      const todo = input.desc || (input.accept ? 'Accept the dialog' : 'Dismiss the dialog');
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      let dialog: PageDialog;
+      try {
+        dialog = await page.handleDialog(input.accept, input.text ?? undefined);
+      } catch (error) {
+        const errorMsg = `Failed to handle the dialog: ${error instanceof Error ? error.message : String(error)}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      // accepting may navigate away, e.g. confirming a form submission or leaving the page
+      await page.waitForPageAndFramesLoad();
+
+      const msg = input.accept
+        ? `Accepted the ${dialog.type} dialog "${dialog.message}"${input.text ? ` with text "${input.text}"` : ''}`
+        : `Dismissed the ${dialog.type} dialog "${dialog.message}"`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, handleDialogActionSchema);
+    actions.push(handleDialog);
+
+    const getNetworkResponses = new Action(async (input: z.infer<typeof getNetworkResponsesActionSchema.schema>) => {
+      const todo = input.desc || `Get network responses${input.url_pattern ? ` of ${input.url_pattern}` : ''}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      let responses: CapturedResponse[];
+      try {
+        responses = page.getNetworkResponses({
+          urlPattern: input.url_pattern ?? undefined,
+          contentType: input.content_type ?? 'json',
+        });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      if (responses.length === 0) {
+        const msg = `No network responses match ${input.url_pattern || 'any url'}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      }
+
+      const parts: string[] = [];
+      let length = 0;
+      for (const response of responses.slice(0, MAX_NETWORK_RESPONSES)) {
+        let body = response.body;
+        try {
+          // drop the indentation of JSON bodies
+          body = JSON.stringify(JSON.parse(body));
+        } catch {
+          // not JSON, keep the body as it is
+        }
+        if (body.length > MAX_NETWORK_BODY_LENGTH) {
+          body = `${body.slice(0, MAX_NETWORK_BODY_LENGTH)}... (${body.length - MAX_NETWORK_BODY_LENGTH} more characters)`;
+        }
+        const part = `${response.method} ${response.url} (${response.status}):\n${body}`;
+        if (length + part.length > MAX_NETWORK_RESULT_LENGTH) {
+          break;
+        }
+        parts.push(part);
+        length += part.length;
+      }
+      const omitted = responses.length - parts.length;
+      const msg = `Network responses, newest first:\n${parts.join('\n\n')}${
+        omitted > 0 ? `\n... ${omitted} more responses, use a narrower url_pattern` : ''
+      }`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, `Got ${parts.length} network responses`);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, getNetworkResponsesActionSchema);
+    actions.push(getNetworkResponses);
+
+    const waitFor = new Action(async (input: z.infer<typeof waitForActionSchema.schema>) => {
+      const value = input.value?.trim() ?? '';
+      const todo = input.desc || `Wait for ${input.condition.replace(/_/g, ' ')}${value ? ` ${value}` : ''}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+      if (!value && input.condition !== 'element_count_stable') {
+        const errorMsg = `wait_for ${input.condition} needs a value`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      const timeout = Math.min(Math.max(input.timeout ?? DEFAULT_WAIT_TIMEOUT, 1), MAX_WAIT_TIMEOUT);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      let met: boolean;
+      try {
+        met = await page.waitFor(input.condition, value, timeout);
+      } catch (error) {
+        const errorMsg = `Failed to wait for ${input.condition}: ${error instanceof Error ? error.message : String(error)}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      const condition = `${input.condition.replace(/_/g, ' ')}${value ? ` "${value}"` : ''}`;
+      if (!met) {
+        const errorMsg = `Timed out after ${timeout} seconds waiting for ${condition}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      const msg = `Waited for ${condition}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, waitForActionSchema);
+    actions.push(waitFor);
+
+    const clickCoordinates = new Action(async (input: z.infer<typeof clickCoordinatesActionSchema.schema>) => {
+      if (!this.context.options.useVision) {
+        return this.visionRequiredResult(clickCoordinatesActionSchema.name);
+      }
+      const todo = input.desc || `Click at (${input.x}, ${input.y})`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      try {
+        await page.clickCoordinates(input.x, input.y);
+      } catch (error) {
+        return this.mouseActionFailedResult('click', error);
+      }
+      const msg = `Clicked at (${input.x}, ${input.y})`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, clickCoordinatesActionSchema);
+    actions.push(clickCoordinates);
+
+    const dragAndDrop = new Action(async (input: z.infer<typeof dragAndDropActionSchema.schema>) => {
+      if (!this.context.options.useVision) {
+        return this.visionRequiredResult(dragAndDropActionSchema.name);
+      }
+      const todo = input.desc || `Drag from (${input.from_x}, ${input.from_y}) to (${input.to_x}, ${input.to_y})`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      try {
+        await page.dragAndDrop(input.from_x, input.from_y, input.to_x, input.to_y);
+      } catch (error) {
+        return this.mouseActionFailedResult('drag and drop', error);
+      }
+      const msg = `Dragged from (${input.from_x}, ${input.from_y}) to (${input.to_x}, ${input.to_y})`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, dragAndDropActionSchema);
+    actions.push(dragAndDrop);
+
+    const hover = new Action(async (input: z.infer<typeof hoverActionSchema.schema>) => {
+      if (!this.context.options.useVision) {
+        return this.visionRequiredResult(hoverActionSchema.name);
+      }
+      const todo = input.desc || `Hover at (${input.x}, ${input.y})`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, todo);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      try {
+        await page.hover(input.x, input.y);
+      } catch (error) {
+        return this.mouseActionFailedResult('hover', error);
+      }
+      const msg = `Hovered at (${input.x}, ${input.y})`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, hoverActionSchema);
+    actions.push(hover);
+
     return actions;
   }
 
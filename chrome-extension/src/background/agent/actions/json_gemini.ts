@@ -121,6 +121,67 @@ export const geminiNavigatorOutputSchema = {
             required: ['url'],
             nullable: true,
           },
+          close_tab: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              tab_id: {
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'tab_id'],
+            nullable: true,
+          },
+          list_tabs: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              opened_by: {
+                type: 'string',
+                enum: ['agent', 'user', 'all'],
+                nullable: true,
+              },
+            },
+            required: ['desc'],
+            nullable: true,
+          },
+          extract_structured: {
+            type: 'object',
+            properties: {
+              goal: {
+                type: 'string',
+              },
+              json_schema: {
+                type: 'string',
+                description: 'JSON schema of the data as a JSON string, copied from the task',
+              },
+            },
+            required: ['goal', 'json_schema'],
+            nullable: true,
+          },
+          save_file: {
+            type: 'object',
+            properties: {
+              filename: {
+                type: 'string',
+              },
+              format: {
+                type: 'string',
+                enum: ['md', 'json', 'csv'],
+              },
+              content: {
+                type: 'string',
+              },
+            },
+            required: ['filename', 'format', 'content'],
+            nullable: true,
+          },
           cache_content: {
             type: 'object',
             properties: {
@@ -212,6 +273,154 @@ export const geminiNavigatorOutputSchema = {
             required: ['index', 'text'],
             nullable: true,
           },
+          upload_file: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              index: {
+                type: 'integer',
+              },
+              filename: {
+                type: 'string',
+              },
+            },
+            required: ['desc', 'index', 'filename'],
+            nullable: true,
+          },
+          read_download: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              filename: {
+                type: 'string',
+              },
+            },
+            required: ['desc', 'filename'],
+            nullable: true,
+          },
+          handle_dialog: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              accept: {
+                type: 'boolean',
+              },
+              text: {
+                type: 'string',
+                nullable: true,
+              },
+            },
+            required: ['desc', 'accept'],
+            nullable: true,
+          },
+          get_network_responses: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              url_pattern: {
+                type: 'string',
+                nullable: true,
+              },
+              content_type: {
+                type: 'string',
+                nullable: true,
+              },
+            },
+            required: ['desc'],
+            nullable: true,
+          },
+          wait_for: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              condition: {
+                type: 'string',
+                enum: ['text', 'selector', 'url', 'element_count_stable'],
+              },
+              value: {
+                type: 'string',
+                nullable: true,
+              },
+              timeout: {
+                type: 'number',
+                nullable: true,
+              },
+            },
+            required: ['desc', 'condition'],
+            nullable: true,
+          },
+          click_coordinates: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              x: {
+                type: 'integer',
+              },
+              y: {
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'x', 'y'],
+            nullable: true,
+          },
+          drag_and_drop: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              from_x: {
+                type: 'integer',
+              },
+              from_y: {
+                type: 'integer',
+              },
+              to_x: {
+                type: 'integer',
+              },
+              to_y: {
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'from_x', 'from_y', 'to_x', 'to_y'],
+            nullable: true,
+          },
+          hover: {
+            type: 'object',
+            properties: {
+              desc: {
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              x: {
+                type: 'integer',
+              },
+              y: {
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'x', 'y'],
+            nullable: true,
+          },
         },
         required: [],
       },
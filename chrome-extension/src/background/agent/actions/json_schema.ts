@@ -146,6 +146,80 @@ export const jsonNavigatorOutputSchema = {
             type: 'object',
             nullable: true,
           },
+          close_tab: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              tab_id: {
+                title: 'Tab Id',
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'tab_id'],
+            title: 'CloseTabAction',
+            type: 'object',
+            nullable: true,
+          },
+          list_tabs: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              opened_by: {
+                title: 'Opened By',
+                type: 'string',
+                enum: ['agent', 'user', 'all'],
+                nullable: true,
+              },
+            },
+            required: ['desc'],
+            title: 'ListTabsAction',
+            type: 'object',
+            nullable: true,
+          },
+          extract_structured: {
+            properties: {
+              goal: {
+                title: 'Goal',
+                type: 'string',
+              },
+              json_schema: {
+                title: 'JSON Schema',
+                type: 'string',
+                description: 'JSON schema of the data as a JSON string, copied from the task',
+              },
+            },
+            required: ['goal', 'json_schema'],
+            title: 'extract_structured_parameters',
+            type: 'object',
+            nullable: true,
+          },
+          save_file: {
+            properties: {
+              filename: {
+                title: 'Filename',
+                type: 'string',
+              },
+              format: {
+                title: 'Format',
+                type: 'string',
+                enum: ['md', 'json', 'csv'],
+              },
+              content: {
+                title: 'Content',
+                type: 'string',
+              },
+            },
+            required: ['filename', 'format', 'content'],
+            title: 'save_file_parameters',
+            type: 'object',
+            nullable: true,
+          },
           cache_content: {
             properties: {
               content: {
@@ -256,6 +330,188 @@ export const jsonNavigatorOutputSchema = {
             type: 'object',
             nullable: true,
           },
+          upload_file: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              index: {
+                title: 'Index',
+                type: 'integer',
+              },
+              filename: {
+                title: 'Filename',
+                type: 'string',
+              },
+            },
+            required: ['desc', 'index', 'filename'],
+            title: 'UploadFileAction',
+            type: 'object',
+            nullable: true,
+          },
+          read_download: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              filename: {
+                title: 'Filename',
+                type: 'string',
+              },
+            },
+            required: ['desc', 'filename'],
+            title: 'ReadDownloadAction',
+            type: 'object',
+            nullable: true,
+          },
+          handle_dialog: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              accept: {
+                title: 'Accept',
+                type: 'boolean',
+              },
+              text: {
+                title: 'Text',
+                type: 'string',
+                nullable: true,
+              },
+            },
+            required: ['desc', 'accept'],
+            title: 'HandleDialogAction',
+            type: 'object',
+            nullable: true,
+          },
+          get_network_responses: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              url_pattern: {
+                title: 'Url Pattern',
+                type: 'string',
+                nullable: true,
+              },
+              content_type: {
+                title: 'Content Type',
+                type: 'string',
+                nullable: true,
+              },
+            },
+            required: ['desc'],
+            title: 'GetNetworkResponsesAction',
+            type: 'object',
+            nullable: true,
+          },
+          wait_for: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              condition: {
+                title: 'Condition',
+                type: 'string',
+                enum: ['text', 'selector', 'url', 'element_count_stable'],
+              },
+              value: {
+                title: 'Value',
+                type: 'string',
+                nullable: true,
+              },
+              timeout: {
+                title: 'Timeout',
+                type: 'number',
+                nullable: true,
+              },
+            },
+            required: ['desc', 'condition'],
+            title: 'WaitForAction',
+            type: 'object',
+            nullable: true,
+          },
+          click_coordinates: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              x: {
+                title: 'X',
+                type: 'integer',
+              },
+              y: {
+                title: 'Y',
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'x', 'y'],
+            title: 'ClickCoordinatesAction',
+            type: 'object',
+            nullable: true,
+          },
+          drag_and_drop: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              from_x: {
+                title: 'From X',
+                type: 'integer',
+              },
+              from_y: {
+                title: 'From Y',
+                type: 'integer',
+              },
+              to_x: {
+                title: 'To X',
+                type: 'integer',
+              },
+              to_y: {
+                title: 'To Y',
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'from_x', 'from_y', 'to_x', 'to_y'],
+            title: 'DragAndDropAction',
+            type: 'object',
+            nullable: true,
+          },
+          hover: {
+            properties: {
+              desc: {
+                title: 'Intent',
+                type: 'string',
+                description: 'Very short explanation of the intent or purpose for calling this action',
+              },
+              x: {
+                title: 'X',
+                type: 'integer',
+              },
+              y: {
+                title: 'Y',
+                type: 'integer',
+              },
+            },
+            required: ['desc', 'x', 'y'],
+            title: 'HoverAction',
+            type: 'object',
+            nullable: true,
+          },
         },
         title: 'ActionModel',
         type: 'object',
@@ -75,6 +75,25 @@ export const openTabActionSchema: ActionSchema = {
   }),
 };
 
+export const closeTabActionSchema: ActionSchema = {
+  name: 'close_tab',
+  description: 'Close a tab you opened by id, the tabs of the user can not be closed',
+  schema: z.object({
+    desc: z.string().optional(),
+    tab_id: z.number(),
+  }),
+};
+
+export const listTabsActionSchema: ActionSchema = {
+  name: 'list_tabs',
+  description:
+    'List the open tabs with who opened them, and whether they are active or loading. opened_by filters the tabs: agent, user or all (default)',
+  schema: z.object({
+    desc: z.string().optional(),
+    opened_by: z.enum(['agent', 'user', 'all']).nullable().optional(),
+  }),
+};
+
 // Content Actions
 export const extractContentActionSchema: ActionSchema = {
   name: 'extract_content',
@@ -85,6 +104,26 @@ export const extractContentActionSchema: ActionSchema = {
   }),
 };
 
+export const extractStructuredActionSchema: ActionSchema = {
+  name: 'extract_structured',
+  description:
+    'Extract data from the current page that matches a JSON schema given in the task, the data is added to a dataset the user can download',
+  schema: z.object({
+    goal: z.string(),
+    json_schema: z.string().describe('JSON schema of the data as a JSON string, copied from the task'),
+  }),
+};
+
+export const saveFileActionSchema: ActionSchema = {
+  name: 'save_file',
+  description: "Save content as a Markdown, JSON or CSV file to the user's downloads folder",
+  schema: z.object({
+    filename: z.string(),
+    format: z.enum(['md', 'json', 'csv']),
+    content: z.string(),
+  }),
+};
+
 // Cache Actions
 export const cacheContentActionSchema: ActionSchema = {
   name: 'cache_content',
@@ -147,3 +186,93 @@ export const selectDropdownOptionActionSchema: ActionSchema = {
     text: z.string(),
   }),
 };
+
+export const clickCoordinatesActionSchema: ActionSchema = {
+  name: 'click_coordinates',
+  description:
+    'Click at a position of the screenshot, for elements without an index. x and y are in pixels from the top left of the viewport. Only available with vision',
+  schema: z.object({
+    desc: z.string().optional(),
+    x: z.number(),
+    y: z.number(),
+  }),
+};
+
+export const dragAndDropActionSchema: ActionSchema = {
+  name: 'drag_and_drop',
+  description:
+    'Drag from one position of the screenshot and drop at another, e.g. to move sliders, cards or files. Coordinates are in pixels from the top left of the viewport. Only available with vision',
+  schema: z.object({
+    desc: z.string().optional(),
+    from_x: z.number(),
+    from_y: z.number(),
+    to_x: z.number(),
+    to_y: z.number(),
+  }),
+};
+
+export const hoverActionSchema: ActionSchema = {
+  name: 'hover',
+  description:
+    'Move the mouse over a position of the screenshot, e.g. to open a menu or show a tooltip. x and y are in pixels from the top left of the viewport. Only available with vision',
+  schema: z.object({
+    desc: z.string().optional(),
+    x: z.number(),
+    y: z.number(),
+  }),
+};
+
+export const uploadFileActionSchema: ActionSchema = {
+  name: 'upload_file',
+  description:
+    'Upload a file the user attached to the file upload element with the index. filename is the name of the attached file',
+  schema: z.object({
+    desc: z.string().optional(),
+    index: z.number(),
+    filename: z.string(),
+  }),
+};
+
+export const readDownloadActionSchema: ActionSchema = {
+  name: 'read_download',
+  description:
+    'Read the content of a completed CSV, JSON or TXT download into memory, filename is the name of the download',
+  schema: z.object({
+    desc: z.string().optional(),
+    filename: z.string(),
+  }),
+};
+
+export const handleDialogActionSchema: ActionSchema = {
+  name: 'handle_dialog',
+  description:
+    'Accept or dismiss the open alert, confirm, prompt or beforeunload dialog of the page, text is entered into a prompt dialog when accepting it',
+  schema: z.object({
+    desc: z.string().optional(),
+    accept: z.boolean(),
+    text: z.string().nullable().optional(),
+  }),
+};
+
+export const getNetworkResponsesActionSchema: ActionSchema = {
+  name: 'get_network_responses',
+  description:
+    'Get the latest JSON responses the page loaded in the background (XHR and fetch), to read its data directly instead of from the page. url_pattern filters the urls, e.g. */api/products*',
+  schema: z.object({
+    desc: z.string().optional(),
+    url_pattern: z.string().nullable().optional(),
+    content_type: z.string().nullable().optional(),
+  }),
+};
+
+export const waitForActionSchema: ActionSchema = {
+  name: 'wait_for',
+  description:
+    'Wait until a condition is met: text appears on the page, an element matching the CSS selector is visible, the url matches the pattern (e.g. *checkout*), or the number of elements matching the selector (all elements if empty) is stable. timeout in seconds, default 10, maximum 30',
+  schema: z.object({
+    desc: z.string().optional(),
+    condition: z.enum(['text', 'selector', 'url', 'element_count_stable']),
+    value: z.string().nullable().optional(),
+    timeout: z.number().nullable().optional(),
+  }),
+};
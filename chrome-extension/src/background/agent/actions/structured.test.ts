@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidJsonSchemaError, jsonSchemaToZod, parseJsonSchema } from './structured';
+
+const toZod = (text: string) => jsonSchemaToZod(parseJsonSchema(text));
+
+describe('jsonSchemaToZod', () => {
+  it('validates data against the schema', () => {
+    const schema = toZod(
+      '{"type": "array", "items": {"type": "object", "properties": {"name": {"type": "string"}, "price": {"type": ["number", "null"]}}, "required": ["name"]}}',
+    );
+    expect(
+      schema.safeParse([
+        { name: 'a', price: 1 },
+        { name: 'b', price: null },
+      ]).success,
+    ).toBe(true);
+    expect(schema.safeParse([{ price: 1 }]).success).toBe(false);
+  });
+
+  it.each([
+    ['an empty type list', '{"type": []}'],
+    ['a type that is not a name', '{"type": 1}'],
+    ['a null property', '{"type": "object", "properties": {"name": null}}'],
+    ['properties that are not an object', '{"type": "object", "properties": []}'],
+    ['required that is not a list', '{"type": "object", "required": "name"}'],
+    ['items that are not an object', '{"type": "array", "items": "string"}'],
+    ['an enum that is not a list', '{"enum": "a"}'],
+    ['an unsupported type', '{"type": "date"}'],
+  ])('rejects a schema with %s', (_, text) => {
+    expect(() => toZod(text)).toThrow(InvalidJsonSchemaError);
+  });
+
+  it('names the malformed node', () => {
+    expect(() => toZod('{"type": "object", "properties": {"items": {"type": "array", "items": null}}}')).toThrow(
+      'items at root.properties.items must be an object',
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+
+/**
+ * The subset of JSON Schema supported by structured extraction
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  nullable?: boolean;
+  description?: string;
+}
+
+export class InvalidJsonSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidJsonSchemaError';
+  }
+}
+
+/**
+ * Parse a JSON schema supplied by the task
+ * @param text - The JSON schema as a JSON string
+ */
+export function parseJsonSchema(text: string): JsonSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    throw new InvalidJsonSchemaError(`JSON schema is not valid JSON: ${error}`);
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new InvalidJsonSchemaError('JSON schema must be an object');
+  }
+  return schema as JsonSchema;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the keywords of a schema node that the conversion relies on
+ * @param schema - The schema node, any JSON value
+ * @param path - Where the node is in the schema, used in the error messages
+ */
+function assertSchemaNode(schema: unknown, path: string): asserts schema is JsonSchema {
+  if (!isPlainObject(schema)) {
+    throw new InvalidJsonSchemaError(`JSON schema at ${path} must be an object`);
+  }
+  const { type, properties, required, items, enum: values } = schema;
+  if (
+    type !== undefined &&
+    typeof type !== 'string' &&
+    !(Array.isArray(type) && type.length > 0 && type.every(item => typeof item === 'string'))
+  ) {
+    throw new InvalidJsonSchemaError(`type at ${path} must be a type name or a non-empty list of type names`);
+  }
+  if (properties !== undefined && !isPlainObject(properties)) {
+    throw new InvalidJsonSchemaError(`properties at ${path} must be an object`);
+  }
+  if (required !== undefined && !(Array.isArray(required) && required.every(item => typeof item === 'string'))) {
+    throw new InvalidJsonSchemaError(`required at ${path} must be a list of property names`);
+  }
+  if (items !== undefined && !isPlainObject(items)) {
+    throw new InvalidJsonSchemaError(`items at ${path} must be an object`);
+  }
+  if (values !== undefined && !Array.isArray(values)) {
+    throw new InvalidJsonSchemaError(`enum at ${path} must be a list of values`);
+  }
+}
+
+function typeToZod(type: string, schema: JsonSchema, path: string): z.ZodTypeAny {
+  switch (type) {
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array':
+      return z.array(schema.items ? jsonSchemaToZod(schema.items, `${path}.items`) : z.unknown());
+    case 'object': {
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        const propertySchema = jsonSchemaToZod(property, `${path}.properties.${key}`);
+        shape[key] = required.has(key) ? propertySchema : propertySchema.optional();
+      }
+      return z.object(shape).passthrough();
+    }
+    default:
+      throw new InvalidJsonSchemaError(`Unsupported type in JSON schema: ${type}`);
+  }
+}
+
+/**
+ * Convert a JSON schema to a zod schema, used to validate the extracted data
+ * @param schema - The JSON schema
+ * @param path - Where the schema is in the supplied schema, used in the error messages
+ * @throws InvalidJsonSchemaError if a node of the schema is malformed
+ */
+export function jsonSchemaToZod(schema: JsonSchema, path = 'root'): z.ZodTypeAny {
+  assertSchemaNode(schema, path);
+  let zodSchema: z.ZodTypeAny;
+  if (schema.enum) {
+    const values = schema.enum;
+    zodSchema = z.unknown().refine(value => values.includes(value), {
+      message: `Expected one of ${JSON.stringify(values)}`,
+    });
+  } else if (Array.isArray(schema.type)) {
+    const options = schema.type.map(type => typeToZod(type, schema, path));
+    zodSchema = options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny]);
+  } else if (schema.type) {
+    zodSchema = typeToZod(schema.type, schema, path);
+  } else {
+    // an object without a type is treated as an object schema if it has properties
+    zodSchema = schema.properties ? typeToZod('object', schema, path) : z.unknown();
+  }
+  if (schema.description) {
+    zodSchema = zodSchema.describe(schema.description);
+  }
+  return schema.nullable ? zodSchema.nullable() : zodSchema;
+}
+
+/**
+ * Parse the JSON in a model output, the JSON may be wrapped in a code block
+ * @param content - The model output
+ */
+export function parseJsonOutput(content: string): unknown {
+  const codeBlock = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((codeBlock ? codeBlock[1] : content).trim());
+}
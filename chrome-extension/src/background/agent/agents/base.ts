@@ -2,7 +2,7 @@ import type { z } from 'zod';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import type { AgentContext, AgentOutput } from '../types';
 import type { BasePrompt } from '../prompts/base';
-import { type BaseMessage, AIMessage, ToolMessage, HumanMessage } from '@langchain/core/messages';
+import { type BaseMessage, AIMessage, ToolMessage, HumanMessage, isAIMessage } from '@langchain/core/messages';
 import { createLogger } from '@src/background/log';
 import type { Action } from '../actions/builder';
 import { convertMessagesForNonFunctionCallingModels, mergeSuccessiveMessages } from '../messages/service';
@@ -141,6 +141,7 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
         const response = await structuredLlm.invoke(inputMessages, {
           ...this.callOptions,
         });
+        await this.recordUsage(response.raw);
 
         if (response.parsed) {
           return response.parsed;
@@ -158,6 +159,7 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     const response = await this.chatLLM.invoke(convertedInputMessages, {
       ...this.callOptions,
     });
+    await this.recordUsage(response);
     if (typeof response.content === 'string') {
       response.content = this.removeThinkTags(response.content);
       try {
@@ -176,6 +178,22 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     throw new Error('Could not parse response');
   }
 
+  /**
+   * Record the token usage reported by the provider for a model response
+   * @param response - The raw model response, usage is only reported on AI messages
+   */
+  protected async recordUsage(response: BaseMessage | undefined): Promise<void> {
+    const usage = response && isAIMessage(response) ? response.usage_metadata : undefined;
+    if (!usage) {
+      return;
+    }
+    try {
+      await this.context.recordUsage(this.id, this.modelName, usage.input_tokens, usage.output_tokens);
+    } catch (error) {
+      logger.error('Failed to record token usage', error);
+    }
+  }
+
   // Execute the agent and return the result
   abstract execute(): Promise<AgentOutput<M>>;
 
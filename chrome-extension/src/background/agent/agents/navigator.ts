@@ -16,7 +16,12 @@ import {
 } from './errors';
 import { jsonNavigatorOutputSchema } from '../actions/json_schema';
 import { geminiNavigatorOutputSchema } from '../actions/json_gemini';
-import { calcBranchPathHashSet } from '@src/background/dom/views';
+import { calcBranchPathHashSet, type DOMElementNode } from '@src/background/dom/views';
+import { HistoryTreeProcessor } from '@src/background/dom/history/service';
+import { DOMHistoryElement } from '@src/background/dom/history/view';
+import type { BrowserState } from '@src/background/browser/types';
+import { browserDownloadStore, type MacroAction } from '@extension/storage';
+import { DownloadEventEnum } from '@src/background/browser/downloads';
 const logger = createLogger('NavigatorAgent');
 
 export class NavigatorActionRegistry {
@@ -84,6 +89,7 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
         response = await structuredLlm.invoke(inputMessages, {
           ...this.callOptions,
         });
+        await this.recordUsage(response.raw);
 
         if (response.parsed) {
           return response.parsed;
@@ -131,6 +137,8 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
       const messageManager = this.context.messageManager;
       // add the browser state message
       await this.addStateMessageToMemory();
+      // trim the state message if the history does not fit into the token budget
+      messageManager.cutMessages();
       // check if the task is paused or stopped
       if (this.context.paused || this.context.stopped) {
         cancelled = true;
@@ -146,8 +154,9 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
         cancelled = true;
         return agentOutput;
       }
-      // remove the last state message from memory before adding the model output
-      this.removeLastStateMessageFromMemory();
+      // remove the last state message from memory before adding the model output,
+      // unless it is the full page state the next state messages describe the changes of
+      this.removeLastStateMessageFromMemory(true);
       this.addModelOutputToMemory(modelOutput);
 
       // take the actions
@@ -231,12 +240,22 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
 
   /**
    * Remove the last state message from the memory
+   * @param keepPageStateBaseline - Keep the message if it is the full page state of the page state baseline
    */
-  protected async removeLastStateMessageFromMemory() {
+  protected async removeLastStateMessageFromMemory(keepPageStateBaseline = false) {
     if (!this.context.stateMessageAdded) return;
     const messageManager = this.context.messageManager;
-    messageManager.removeLastStateMessage();
     this.context.stateMessageAdded = false;
+    const baseline = this.context.pageStateBaseline;
+    if (baseline && messageManager.isLastMessage(baseline.message)) {
+      if (keepPageStateBaseline) {
+        // the later state messages have their own screenshots, only the text of the full page state is kept
+        messageManager.removeImages(baseline.message);
+        return;
+      }
+      this.context.pageStateBaseline = null;
+    }
+    messageManager.removeLastStateMessage();
   }
 
   private async doMultiAction(response: this['ModelOutput']): Promise<ActionResult[]> {
@@ -304,17 +323,39 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
           }
         }
 
-        const result = await actionInstance.call(actionArgs);
+        const rejection = await this.checkApproval(actionName, actionArgs, indexArg, browserState);
+        if (rejection) {
+          results.push(rejection);
+          break;
+        }
+        // the task may have been paused or stopped while waiting for approval
+        if (this.context.paused || this.context.stopped) {
+          return results;
+        }
+
+        const result = await this.callAction(actionInstance, actionArgs);
         if (result === undefined) {
           throw new Error(`Action ${actionName} returned undefined`);
         }
         results.push(result);
+        if (!result.error) {
+          const elementNode = indexArg !== null ? browserState.selectorMap.get(indexArg) : undefined;
+          this.recordAction(actionName, actionArgs, elementNode, browserState.url);
+        }
         // check if the task is paused or stopped
         if (this.context.paused || this.context.stopped) {
           return results;
         }
-        // TODO: wait for 1 second for now, need to optimize this to avoid unnecessary waiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        // nothing can run in the page until the dialog is handled
+        if ((await browserContext.getCurrentPage()).hasOpenDialog) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, browserContext.getConfig().waitBetweenActions * 1000));
+        // downloads the action started, or earlier downloads that finished meanwhile,
+        // the done action stays the last result
+        if (!result.isDone) {
+          results.push(...(await this.downloadResults()));
+        }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         logger.error('doAction error', actionName, actionArgs, errorMessage);
@@ -335,4 +376,226 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
     }
     return results;
   }
+
+  /**
+   * Replay an action recorded in a macro without calling the LLM.
+   * The action's element is located on the current page by its xpath, attributes and parent branch.
+   * @returns The action result, or null if the element can not be found on the current page
+   */
+  async replayAction(recorded: MacroAction): Promise<ActionResult | null> {
+    const actionInstance = this.actionRegistry.getAction(recorded.name);
+    if (actionInstance === undefined) {
+      throw new Error(`Action ${recorded.name} not exists`);
+    }
+
+    const browserContext = this.context.browserContext;
+    const browserState = await browserContext.getState();
+    await browserContext.removeHighlight();
+
+    const actionArgs = { ...recorded.args };
+    let elementNode: DOMElementNode | undefined;
+    if (recorded.element) {
+      const { tagName, xpath, highlightIndex, entireParentBranchPath, attributes, shadowRoot, cssSelector } =
+        recorded.element;
+      const historyElement = new DOMHistoryElement(
+        tagName,
+        xpath,
+        highlightIndex,
+        entireParentBranchPath,
+        attributes,
+        shadowRoot,
+        cssSelector,
+      );
+      const node = await HistoryTreeProcessor.findHistoryElementInTree(historyElement, browserState.elementTree);
+      if (node?.highlightIndex === undefined) {
+        logger.info(`Element of recorded action ${recorded.name} not found on ${browserState.url}`);
+        return null;
+      }
+      elementNode = node;
+      actionArgs.index = node.highlightIndex;
+    }
+
+    const rejection = await this.checkApproval(
+      recorded.name,
+      actionArgs,
+      elementNode?.highlightIndex ?? null,
+      browserState,
+    );
+    if (rejection) {
+      return rejection;
+    }
+    // the task may have been stopped while waiting for approval
+    if (this.context.stopped) {
+      return new ActionResult();
+    }
+
+    const result = await this.callAction(actionInstance, actionArgs);
+    if (!result.error) {
+      this.recordAction(recorded.name, actionArgs, elementNode, browserState.url);
+    }
+    return result;
+  }
+
+  /**
+   * Call an action, or stop waiting for it when it opens a dialog: the action can not finish
+   * before the dialog is handled, the navigator handles it in the next step
+   */
+  private async callAction(action: Action, actionArgs: unknown): Promise<ActionResult> {
+    const page = await this.context.browserContext.getCurrentPage();
+    let removeListener = () => {};
+    const dialogOpened = new Promise<ActionResult>(resolve => {
+      removeListener = page.onDialog(dialog => {
+        const msg = `The action opened a ${dialog.type} dialog: "${dialog.message}" - use handle_dialog to accept or dismiss it`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        resolve(new ActionResult({ extractedContent: msg, includeInMemory: true }));
+      });
+    });
+
+    const actionCall = action.call(actionArgs);
+    // the action may still fail after the dialog was handled
+    actionCall.catch(error => logger.warning(`Action ${action.name()} failed after opening a dialog:`, error));
+    try {
+      return await Promise.race([actionCall, dialogOpened]);
+    } finally {
+      removeListener();
+    }
+  }
+
+  /**
+   * Report the downloads started or finished since the last call, and list them in the chat session
+   */
+  private async downloadResults(): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+    for (const { type, download } of this.context.browserContext.takeDownloadEvents()) {
+      try {
+        await browserDownloadStore.putDownload(this.context.taskId, download);
+      } catch (error) {
+        logger.error('Failed to list download', download.name, error);
+      }
+
+      if (type === DownloadEventEnum.Started) {
+        const msg = `Download started: ${download.name} from ${download.url}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        results.push(new ActionResult({ extractedContent: msg, includeInMemory: true }));
+      } else if (type === DownloadEventEnum.Completed) {
+        const msg = `Download complete: ${download.name} (${download.size} bytes), use read_download to read CSV, JSON or TXT files`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        results.push(new ActionResult({ extractedContent: msg, includeInMemory: true }));
+      } else {
+        const msg = `Download failed: ${download.name}: ${download.error ?? 'unknown error'}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+        results.push(new ActionResult({ error: msg, includeInMemory: true }));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Record a successful action, together with the element it was run on
+   */
+  private recordAction(actionName: string, actionArgs: unknown, elementNode: DOMElementNode | undefined, url: string) {
+    const element = elementNode ? HistoryTreeProcessor.convertDomElementToHistoryElement(elementNode) : null;
+    this.context.recordedActions.push({
+      name: actionName,
+      args: { ...(actionArgs as Record<string, unknown>) },
+      element: element && {
+        tagName: element.tagName,
+        xpath: element.xpath,
+        highlightIndex: element.highlightIndex,
+        entireParentBranchPath: element.entireParentBranchPath,
+        attributes: { ...element.attributes },
+        shadowRoot: element.shadowRoot,
+        cssSelector: element.cssSelector,
+      },
+      url,
+    });
+  }
+
+  /**
+   * Ask the user to approve the action if it matches an approval rule
+   * @returns An error result if the user rejected the action, null if the action can run
+   */
+  private async checkApproval(
+    actionName: string,
+    actionArgs: unknown,
+    indexArg: number | null,
+    browserState: BrowserState,
+  ): Promise<ActionResult | null> {
+    const policy = this.context.approvalPolicy;
+    if (!policy) {
+      return null;
+    }
+
+    const elementNode = indexArg !== null ? browserState.selectorMap.get(indexArg) : undefined;
+    let label = '';
+    if (elementNode) {
+      label = [
+        elementNode.getAllTextTillNextClickableElement(2),
+        elementNode.attributes['aria-label'],
+        elementNode.attributes['title'],
+        elementNode.attributes['value'],
+      ]
+        .filter(Boolean)
+        .join(' ');
+    } else {
+      const points = coordinateTargets(actionName, actionArgs);
+      if (points.length > 0) {
+        label = await this.describePoints(points);
+      }
+    }
+    const rule = policy.match({ actionName, label, url: browserState.url });
+    if (!rule) {
+      return null;
+    }
+
+    const target = label ? ` on "${label.slice(0, 100)}"` : '';
+    const details = `Approval required by rule "${rule.name}": ${actionName}${target} at ${browserState.url}`;
+    logger.info(details);
+    const approved = await this.context.requestApproval(details);
+    // a stopped task is handled by the caller
+    if (approved || this.context.stopped) {
+      return null;
+    }
+
+    const msg = `User rejected ${actionName}${target}, do not retry this action`;
+    this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+    return new ActionResult({ error: msg, includeInMemory: true });
+  }
+
+  /**
+   * Describe the elements at the positions a coordinate action targets
+   */
+  private async describePoints(points: { x: number; y: number }[]): Promise<string> {
+    const page = await this.context.browserContext.getCurrentPage();
+    const labels: string[] = [];
+    for (const { x, y } of points) {
+      try {
+        labels.push(await page.describeElementAt(x, y));
+      } catch (error) {
+        // the action fails on invalid coordinates itself, the rules are matched without the label
+        logger.warning(`Failed to describe the element at (${x}, ${y}):`, error);
+      }
+    }
+    return labels.filter(Boolean).join(' ');
+  }
+}
+
+/**
+ * Get the positions a coordinate action targets from its arguments
+ * @returns The positions, empty if the action does not target positions
+ */
+function coordinateTargets(actionName: string, actionArgs: unknown): { x: number; y: number }[] {
+  const { x, y, from_x, from_y, to_x, to_y } = actionArgs as Record<string, unknown>;
+  switch (actionName) {
+    case 'click_coordinates':
+    case 'hover':
+      return [{ x: Number(x), y: Number(y) }];
+    case 'drag_and_drop':
+      return [
+        { x: Number(from_x), y: Number(from_y) },
+        { x: Number(to_x), y: Number(to_y) },
+      ];
+    default:
+      return [];
+  }
 }
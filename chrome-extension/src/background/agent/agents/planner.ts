@@ -2,7 +2,7 @@ import { BaseAgent, type BaseAgentOptions, type ExtraAgentOptions } from './base
 import { createLogger } from '@src/background/log';
 import { z } from 'zod';
 import type { AgentOutput } from '../types';
-import { HumanMessage } from '@langchain/core/messages';
+import { type BaseMessage, HumanMessage, SystemMessage, ToolMessage, isAIMessage } from '@langchain/core/messages';
 import { Actors, ExecutionState } from '../event/types';
 import {
   ChatModelAuthError,
@@ -39,6 +39,26 @@ export const plannerOutputSchema = z.object({
 
 export type PlannerOutput = z.infer<typeof plannerOutputSchema>;
 
+const SUMMARY_SYSTEM_PROMPT = `You compress the history of a web browsing agent.
+Summarize the steps below into a compact memory for the agent that continues the task.
+Keep: the tasks, pages visited with their URLs, actions taken and their outcome, errors to avoid, and any data collected so far, verbatim.
+Drop: page descriptions and anything that does not help to finish the task.
+Answer with the summary only, in plain text.`;
+
+/**
+ * Render a message of the history as plain text for the summary
+ */
+function formatMessageForSummary(message: BaseMessage): string {
+  const content =
+    typeof message.content === 'string'
+      ? message.content
+      : message.content.map(item => ('text' in item ? item.text : '')).join('');
+  if (isAIMessage(message) && message.tool_calls && message.tool_calls.length > 0) {
+    return `${message.getType()}: ${message.tool_calls.map(call => JSON.stringify(call.args)).join('\n')}`;
+  }
+  return `${message.getType()}: ${content}`;
+}
+
 export class PlannerAgent extends BaseAgent<typeof plannerOutputSchema, PlannerOutput> {
   constructor(options: BaseAgentOptions, extraOptions?: Partial<ExtraAgentOptions>) {
     super(plannerOutputSchema, options, { ...extraOptions, id: 'planner' });
@@ -97,4 +117,29 @@ export class PlannerAgent extends BaseAgent<typeof plannerOutputSchema, PlannerO
       };
     }
   }
+
+  /**
+   * Summarize old steps of the message history into a compact memory
+   * @param messages - The messages of the old steps
+   * @returns The summary
+   */
+  async summarize(messages: BaseMessage[]): Promise<string> {
+    // tool messages only hold placeholders, the actions are in the tool calls
+    const transcript = messages
+      .filter(message => !(message instanceof ToolMessage))
+      .map(formatMessageForSummary)
+      .join('\n\n');
+    const response = await this.chatLLM.invoke(
+      [new SystemMessage(SUMMARY_SYSTEM_PROMPT), new HumanMessage(transcript)],
+      this.callOptions,
+    );
+    await this.recordUsage(response);
+
+    const content = typeof response.content === 'string' ? response.content : formatMessageForSummary(response);
+    const summary = this.removeThinkTags(content).trim();
+    if (!summary) {
+      throw new Error('Planner returned an empty summary');
+    }
+    return summary;
+  }
 }
@@ -44,6 +44,10 @@ export class ValidatorAgent extends BaseAgent<typeof validatorOutputSchema, Vali
     this.plan = plan;
   }
 
+  getPlan(): string | null {
+    return this.plan;
+  }
+
   /**
    * Executes the validator agent
    * @returns AgentOutput<ValidatorOutput>
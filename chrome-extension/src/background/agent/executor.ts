@@ -1,5 +1,15 @@
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { AgentContext, type AgentOptions } from './types';
+import {
+  type ApprovalRule,
+  type MacroAction,
+  macroStore,
+  type ModelPricesConfig,
+  type TaskCheckpoint,
+  taskCheckpointStore,
+  TaskOutputKindEnum,
+  taskOutputStore,
+} from '@extension/storage';
+import { ActionResult, AgentContext, type AgentOptions } from './types';
 import { NavigatorAgent, NavigatorActionRegistry } from './agents/navigator';
 import { PlannerAgent } from './agents/planner';
 import { ValidatorAgent } from './agents/validator';
@@ -8,11 +18,14 @@ import { PlannerPrompt } from './prompts/planner';
 import { ValidatorPrompt } from './prompts/validator';
 import { createLogger } from '@src/background/log';
 import MessageManager from './messages/service';
+import type { Tokenizer } from './messages/tokenizer';
 import type BrowserContext from '../browser/context';
 import { ActionBuilder } from './actions/builder';
+import { ApprovalPolicy } from './actions/approval';
 import { EventManager } from './event/manager';
 import { Actors, type EventCallback, EventType, ExecutionState } from './event/types';
 import { ChatModelAuthError, ChatModelForbiddenError } from './agents/errors';
+import { removeWrittenAttachments } from '@src/background/files/uploads';
 const logger = createLogger('Executor');
 
 export interface ExecutorExtraArgs {
@@ -20,6 +33,14 @@ export interface ExecutorExtraArgs {
   validatorLLM?: BaseChatModel;
   extractorLLM?: BaseChatModel;
   agentOptions?: Partial<AgentOptions>;
+  // actions matching these rules wait for the user's approval
+  approvalRules?: ApprovalRule[];
+  // secret values keyed by placeholder name, filtered out of the messages sent to the LLM
+  sensitiveData?: Record<string, string>;
+  // prices used to calculate the cost of the LLM calls, keyed by model name
+  modelPrices?: ModelPricesConfig;
+  // counts the tokens of the messages, estimated from their length if not provided
+  tokenizer?: Tokenizer;
 }
 
 export class Executor {
@@ -31,6 +52,10 @@ export class Executor {
   private readonly navigatorPrompt: NavigatorPrompt;
   private readonly validatorPrompt: ValidatorPrompt;
   private tasks: string[] = [];
+  // the step to continue from when the executor was restored from a checkpoint
+  private resumeStep: number | null = null;
+  // the macro action to continue the replay from when the executor was restored from a checkpoint
+  private resumeReplayedActions: number | null = null;
   constructor(
     task: string,
     taskId: string,
@@ -38,7 +63,11 @@ export class Executor {
     navigatorLLM: BaseChatModel,
     extraArgs?: Partial<ExecutorExtraArgs>,
   ) {
-    const messageManager = new MessageManager({});
+    const messageManager = new MessageManager({
+      maxInputTokens: extraArgs?.agentOptions?.maxInputTokens,
+      sensitiveData: extraArgs?.sensitiveData,
+      tokenizer: extraArgs?.tokenizer,
+    });
 
     const plannerLLM = extraArgs?.plannerLLM ?? navigatorLLM;
     const validatorLLM = extraArgs?.validatorLLM ?? navigatorLLM;
@@ -52,6 +81,11 @@ export class Executor {
       extraArgs?.agentOptions ?? {},
     );
 
+    if (extraArgs?.approvalRules && extraArgs.approvalRules.length > 0) {
+      context.approvalPolicy = new ApprovalPolicy(extraArgs.approvalRules);
+    }
+    context.modelPrices = extraArgs?.modelPrices ?? {};
+
     this.tasks.push(task);
     this.navigatorPrompt = new NavigatorPrompt(context.options.maxActionsPerStep);
     this.plannerPrompt = new PlannerPrompt();
@@ -101,6 +135,37 @@ export class Executor {
 
     // need to reset previous action results that are not included in memory
     this.context.actionResults = this.context.actionResults.filter(result => result.includeInMemory);
+    // a follow-up task starts from the first step, also in an executor restored from a checkpoint
+    this.resumeStep = null;
+  }
+
+  /**
+   * Restore the state of an interrupted task, the next call to execute() continues from the checkpoint
+   * @param checkpoint - The checkpoint saved by the interrupted executor
+   */
+  restoreCheckpoint(checkpoint: Omit<TaskCheckpoint, 'updatedAt'>): void {
+    const [, ...followUpTasks] = checkpoint.tasks;
+    this.tasks = [...checkpoint.tasks];
+    for (const task of followUpTasks) {
+      this.validatorPrompt.addFollowUpTask(task);
+    }
+    this.validator.setPlan(checkpoint.validatorPlan);
+
+    const context = this.context;
+    context.messageManager.restoreHistory(checkpoint.messages, checkpoint.toolId);
+    context.nSteps = checkpoint.nSteps;
+    context.consecutiveFailures = checkpoint.consecutiveFailures;
+    context.consecutiveValidatorFailures = checkpoint.consecutiveValidatorFailures;
+    context.actionResults = checkpoint.actionResults.map(result => new ActionResult(result));
+    // checkpoints saved before actions were recorded have no recorded actions
+    context.recordedActions = [...(checkpoint.recordedActions ?? [])];
+    // the page states are not in the checkpoint, the restored history leaves out the full page state
+    // the state messages described the changes of, and the next state message lists the whole page again
+    context.lastPageState = null;
+    context.pageStateBaseline = null;
+    this.resumeStep = checkpoint.step;
+    this.resumeReplayedActions = checkpoint.replayedActions ?? null;
+    logger.info(`Restored task ${context.taskId} from checkpoint at step ${checkpoint.step}`);
   }
 
   /**
@@ -110,9 +175,13 @@ export class Executor {
    */
   async execute(): Promise<void> {
     logger.info(`🚀 Executing task: ${this.tasks[this.tasks.length - 1]}`);
-    // reset the step counter
     const context = this.context;
-    context.nSteps = 0;
+    // reset the step counter, unless the task continues from a checkpoint
+    const startStep = this.resumeStep ?? 0;
+    if (this.resumeStep === null) {
+      context.nSteps = 0;
+    }
+    this.resumeStep = null;
     const allowedMaxSteps = this.context.options.maxSteps;
 
     try {
@@ -122,7 +191,7 @@ export class Executor {
       let step = 0;
       let validatorFailed = false;
 
-      for (step = 0; step < allowedMaxSteps; step++) {
+      for (step = startStep; step < allowedMaxSteps; step++) {
         context.stepInfo = {
           stepNumber: context.nSteps,
           maxSteps: context.options.maxSteps,
@@ -133,6 +202,8 @@ export class Executor {
           break;
         }
 
+        await this.summarizeHistory();
+
         // Run planner if configured
         if (this.planner && (context.nSteps % context.options.planningInterval === 0 || validatorFailed)) {
           validatorFailed = false;
@@ -159,6 +230,8 @@ export class Executor {
             }
 
             if (!planOutput.result.web_task && planOutput.result.done) {
+              // the planner answered the task directly, its answer is the final answer
+              await this.recordFinalAnswer(planOutput.result.next_steps);
               break;
             }
           }
@@ -177,15 +250,22 @@ export class Executor {
             break;
           }
           validatorFailed = true;
+          // the task is not done yet, the macro must not stop at the rejected done action
+          if (context.recordedActions[context.recordedActions.length - 1]?.name === 'done') {
+            context.recordedActions.pop();
+          }
           context.consecutiveValidatorFailures++;
           if (context.consecutiveValidatorFailures >= context.options.maxValidatorFailures) {
             logger.error(`Stopping due to ${context.options.maxValidatorFailures} consecutive validator failures`);
             throw new Error('Too many failures of validation');
           }
         }
+
+        await this.saveCheckpoint(step + 1);
       }
 
       if (done) {
+        await this.saveMacro();
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_OK, this.context.taskId);
       } else if (step >= allowedMaxSteps) {
         logger.info('❌ Task failed: Max steps reached');
@@ -198,6 +278,162 @@ export class Executor {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_FAIL, `Task failed: ${errorMessage}`);
+    } finally {
+      // the task is over, there is nothing to resume
+      await this.removeCheckpoint();
+    }
+  }
+
+  /**
+   * Replay the actions of a macro without calling the LLM.
+   * If an action's element can not be found or an action fails, the navigator takes over from the current page.
+   * @param actions - The recorded actions to replay
+   */
+  async replay(actions: MacroAction[]): Promise<void> {
+    const context = this.context;
+    // continue after the actions replayed before the task was interrupted
+    const startAction = this.resumeReplayedActions ?? 0;
+    this.resumeReplayedActions = null;
+    logger.info(`🔁 Replaying actions ${startAction + 1}-${actions.length} of task: ${this.tasks[0]}`);
+    context.nSteps = 0;
+    context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_START, context.taskId);
+
+    let replayed = startAction;
+    let failure: string | null = null;
+    try {
+      for (const action of actions.slice(startAction)) {
+        if (await this.shouldStop()) {
+          break;
+        }
+        const result = await this.navigator.replayAction(action);
+        if (!result) {
+          failure = `Could not find the element of recorded action ${action.name} on the current page`;
+          break;
+        }
+        if (result.error) {
+          failure = result.error;
+          break;
+        }
+        replayed++;
+        if (result.isDone) {
+          break;
+        }
+        await this.saveCheckpoint(0, replayed);
+        await new Promise(resolve => setTimeout(resolve, context.browserContext.getConfig().waitBetweenActions * 1000));
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (context.stopped) {
+      await this.removeCheckpoint();
+      context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_CANCEL, 'Task cancelled');
+      return;
+    }
+    if (failure === null && replayed === actions.length) {
+      await this.removeCheckpoint();
+      await this.saveMacro();
+      context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_OK, context.taskId);
+      return;
+    }
+
+    // fall back to the navigator, it continues from the page the replay stopped on
+    logger.info(`Replay stopped after ${replayed} / ${actions.length} actions: ${failure}`);
+    context.actionResults = [
+      new ActionResult({
+        extractedContent: `Replayed ${replayed} of ${actions.length} recorded actions of this task, continue the task from the current page`,
+        error: failure,
+        includeInMemory: true,
+      }),
+    ];
+    await this.execute();
+  }
+
+  private async recordFinalAnswer(answer: string): Promise<void> {
+    try {
+      await taskOutputStore.addOutput(this.context.taskId, {
+        kind: TaskOutputKindEnum.FinalAnswer,
+        content: answer,
+        url: null,
+      });
+    } catch (error) {
+      logger.error(`Failed to record final answer: ${error}`);
+    }
+  }
+
+  /**
+   * Save the actions of the succeeded task as a macro of the chat session
+   */
+  private async saveMacro(): Promise<void> {
+    const context = this.context;
+    if (context.recordedActions.length === 0) {
+      return;
+    }
+    try {
+      await macroStore.saveMacro(context.taskId, this.tasks[0], [...context.recordedActions]);
+    } catch (error) {
+      logger.error(`Failed to save macro: ${error}`);
+    }
+  }
+
+  /**
+   * Keep the message history within the token budget by summarizing old steps with the planner LLM
+   */
+  private async summarizeHistory(): Promise<void> {
+    try {
+      const summarized = await this.context.messageManager.summarizeHistory(messages =>
+        this.planner.summarize(messages),
+      );
+      if (summarized) {
+        logger.info('Summarized old steps of the message history');
+      }
+    } catch (error) {
+      // the state message is still trimmed by the navigator if the history stays too long
+      logger.error(`Failed to summarize message history: ${error}`);
+    }
+  }
+
+  /**
+   * Get the executor state, another executor continues the task from it with restoreCheckpoint
+   * @param nextStep - The step to continue from
+   * @param replayedActions - The macro actions replayed so far, when the task replays a macro
+   */
+  createCheckpoint(nextStep: number, replayedActions?: number): Omit<TaskCheckpoint, 'updatedAt'> {
+    const context = this.context;
+    return {
+      taskId: context.taskId,
+      tabId: context.browserContext.getCurrentTabId(),
+      tasks: [...this.tasks],
+      step: nextStep,
+      nSteps: context.nSteps,
+      consecutiveFailures: context.consecutiveFailures,
+      consecutiveValidatorFailures: context.consecutiveValidatorFailures,
+      actionResults: context.actionResults.map(result => ({ ...result })),
+      ...context.messageManager.serializeHistory(context.pageStateBaseline?.message),
+      validatorPlan: this.validator.getPlan(),
+      recordedActions: [...context.recordedActions],
+      replayedActions,
+    };
+  }
+
+  /**
+   * Save the executor state at a step boundary, so that the task can be resumed after the service worker restarts
+   * @param nextStep - The step to continue from
+   * @param replayedActions - The macro actions replayed so far, when the task replays a macro
+   */
+  private async saveCheckpoint(nextStep: number, replayedActions?: number): Promise<void> {
+    try {
+      await taskCheckpointStore.saveCheckpoint(this.createCheckpoint(nextStep, replayedActions));
+    } catch (error) {
+      logger.error(`Failed to save checkpoint: ${error}`);
+    }
+  }
+
+  private async removeCheckpoint(): Promise<void> {
+    try {
+      await taskCheckpointStore.removeCheckpoint(this.context.taskId);
+    } catch (error) {
+      logger.error(`Failed to remove checkpoint: ${error}`);
     }
   }
 
@@ -268,12 +504,24 @@ export class Executor {
     this.context.pause();
   }
 
+  /**
+   * Approve or reject the action that is waiting for the user's approval
+   */
+  async resolveApproval(approved: boolean): Promise<void> {
+    if (!this.context.resolveApproval(approved)) {
+      throw new Error('No action is waiting for approval');
+    }
+  }
+
   async cleanup(): Promise<void> {
     try {
       await this.context.browserContext.cleanup();
     } catch (error) {
       logger.error(`Failed to cleanup browser context: ${error}`);
     }
+    // the pages have read the uploaded files by now
+    await removeWrittenAttachments(this.context.uploadDownloadIds);
+    this.context.uploadDownloadIds = [];
   }
 
   async getCurrentTaskId(): Promise<string> {
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import MessageManager from './service';
+
+const stateMessage = (text: string) =>
+  new HumanMessage({
+    content: [
+      { type: 'text', text },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+    ],
+  });
+
+describe('MessageManager page state baseline', () => {
+  it('removes the images of a state message that stays in the history', () => {
+    const manager = new MessageManager({ imageTokens: 800 });
+    const baseline = stateMessage('full page state');
+    manager.addStateMessage(baseline);
+    const tokens = manager.getMessagesWithTokens()[0].metadata.inputTokens;
+
+    manager.removeImages(baseline);
+
+    expect(baseline.content).toBe('full page state');
+    expect(manager.getMessagesWithTokens()[0].metadata.inputTokens).toBe(tokens - 800);
+    expect(manager.hasMessage(baseline)).toBe(true);
+  });
+
+  it('leaves out the page state baseline when the history is restored', () => {
+    const manager = new MessageManager();
+    const baseline = new HumanMessage('full page state');
+    manager.addStateMessage(baseline);
+    manager.addMessageWithTokens(new AIMessage('clicked the button'));
+    const { messages, toolId } = manager.serializeHistory(baseline);
+    expect(messages[0].pageStateBaseline).toBe(true);
+
+    const restored = new MessageManager();
+    restored.restoreHistory(messages, toolId);
+
+    expect(restored.getMessages().map(m => m.content)).toEqual(['clicked the button']);
+  });
+});
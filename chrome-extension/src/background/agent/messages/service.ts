@@ -1,13 +1,38 @@
-import { type BaseMessage, AIMessage, HumanMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
+import {
+  type BaseMessage,
+  type StoredMessage,
+  type StoredMessageData,
+  AIMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from '@langchain/core/messages';
+import type { CheckpointMessage } from '@extension/storage';
 import { MessageHistory, type MessageMetadata, type ManagedMessage } from '@src/background/agent/messages/views';
 import { createLogger } from '@src/background/log';
+import { EstimatedTokenizer, type Tokenizer } from './tokenizer';
 
 const logger = createLogger('MessageManager');
 
+// Marks the end of the initial task messages, the steps of the task follow it
+const HISTORY_START_MARKER = '[Your task history memory starts here]';
+const SUMMARY_PREFIX = 'Memory of the earlier steps of the task: ';
+// summarize old steps once the history uses this share of the token budget, leaving room for the state message
+const SUMMARIZE_THRESHOLD = 0.75;
+// number of recent messages that are always kept as they are
+const KEEP_RECENT_MESSAGES = 8;
+
+/**
+ * Turns the messages of old steps into a compact memory of what has been done so far
+ */
+export type HistorySummarizer = (messages: BaseMessage[]) => Promise<string>;
+
 export default class MessageManager {
   private maxInputTokens: number;
   private history: MessageHistory;
-  private estimatedCharactersPerToken: number;
+  private tokenizer: Tokenizer;
   private readonly IMG_TOKENS: number;
   private sensitiveData?: Record<string, string>;
   private toolId: number;
@@ -17,15 +42,17 @@ export default class MessageManager {
     estimatedCharactersPerToken = 3,
     imageTokens = 800,
     sensitiveData,
+    tokenizer,
   }: {
     maxInputTokens?: number;
     estimatedCharactersPerToken?: number;
     imageTokens?: number;
     sensitiveData?: Record<string, string>;
+    tokenizer?: Tokenizer;
   } = {}) {
     this.maxInputTokens = maxInputTokens;
     this.history = new MessageHistory();
-    this.estimatedCharactersPerToken = estimatedCharactersPerToken;
+    this.tokenizer = tokenizer ?? new EstimatedTokenizer(estimatedCharactersPerToken);
     this.IMG_TOKENS = imageTokens;
     this.sensitiveData = sensitiveData;
     this.toolId = 1;
@@ -94,7 +121,7 @@ export default class MessageManager {
 
     // Add history start marker
     const historyStartMessage = new HumanMessage({
-      content: '[Your task history memory starts here]',
+      content: HISTORY_START_MARKER,
     });
     this.addMessageWithTokens(historyStartMessage);
   }
@@ -160,6 +187,34 @@ export default class MessageManager {
     this.history.removeLastHumanMessage();
   }
 
+  /**
+   * Checks if the message is still in the history, old messages may have been summarized or cut
+   * @param message - The message to look for
+   */
+  public hasMessage(message: BaseMessage): boolean {
+    return this.history.messages.some(m => m.message === message);
+  }
+
+  /**
+   * Checks if the message is the last message of the history
+   * @param message - The message to check
+   */
+  public isLastMessage(message: BaseMessage): boolean {
+    const messages = this.history.messages;
+    return messages.length > 0 && messages[messages.length - 1].message === message;
+  }
+
+  /**
+   * Removes the message from the history if it is still there
+   * @param message - The message to remove
+   */
+  public removeMessage(message: BaseMessage): void {
+    const index = this.history.messages.findIndex(m => m.message === message);
+    if (index >= 0) {
+      this.history.removeMessage(index);
+    }
+  }
+
   public getMessages(): BaseMessage[] {
     const messages = this.history.messages.map(m => m.message);
 
@@ -179,6 +234,61 @@ export default class MessageManager {
     return this.history.messages;
   }
 
+  /**
+   * Removes the images of a message, e.g. the screenshot of a state message that stays in the history
+   * @param message - The message to remove the images of
+   */
+  public removeImages(message: BaseMessage): void {
+    const managed = this.history.messages.find(m => m.message === message);
+    if (managed) {
+      this._removeImages(managed);
+    }
+  }
+
+  /**
+   * Serializes the message history, so that it can be saved in a checkpoint
+   * @param pageStateBaseline - The full page state message the next state messages describe the changes of
+   * @returns The serialized messages and the next tool call id
+   */
+  public serializeHistory(pageStateBaseline?: BaseMessage): { messages: CheckpointMessage[]; toolId: number } {
+    const storedMessages = mapChatMessagesToStoredMessages(this.history.messages.map(m => m.message));
+    const messages = storedMessages.map((stored, i) => {
+      const managed = this.history.messages[i];
+      const message: CheckpointMessage = {
+        type: stored.type,
+        data: { ...stored.data },
+        inputTokens: managed.metadata.inputTokens,
+      };
+      if (pageStateBaseline && managed.message === pageStateBaseline) {
+        message.pageStateBaseline = true;
+      }
+      return message;
+    });
+    return { messages, toolId: this.toolId };
+  }
+
+  /**
+   * Replaces the message history with messages restored from a checkpoint
+   *
+   * The page state baseline is not restored, the page states it was compared with are not in the checkpoint
+   * @param messages - The serialized messages
+   * @param toolId - The next tool call id
+   */
+  public restoreHistory(checkpointMessages: CheckpointMessage[], toolId: number): void {
+    const messages = checkpointMessages.filter(m => !m.pageStateBaseline);
+    const storedMessages: StoredMessage[] = messages.map(m => ({
+      type: m.type,
+      data: m.data as unknown as StoredMessageData,
+    }));
+    const restoredMessages = mapStoredMessagesToChatMessages(storedMessages);
+    this.history = new MessageHistory();
+    restoredMessages.forEach((message, i) => {
+      // sensitive data has been filtered out before the messages were saved
+      this.history.addMessage(message, { inputTokens: messages[i].inputTokens });
+    });
+    this.toolId = toolId;
+  }
+
   /**
    * Adds a message to the history with the token count metadata
    * @param message - The BaseMessage object to add
@@ -255,13 +365,77 @@ export default class MessageManager {
   }
 
   /**
-   * Counts the tokens in the text
-   * Rough estimate, no tokenizer provided for now
+   * Counts the tokens in the text with the configured tokenizer
    * @param text - The text to count the tokens
    * @returns The number of tokens in the text
    */
   private _countTextTokens(text: string): number {
-    return Math.floor(text.length / this.estimatedCharactersPerToken);
+    return this.tokenizer.countTokens(text);
+  }
+
+  /**
+   * Summarizes the old steps of the task into a single memory message if the history is close to the token budget.
+   * The initial task messages and the most recent messages are kept as they are, a previous summary is summarized again.
+   * @param summarize - Creates the memory from the messages of the old steps
+   * @returns Whether the history was summarized
+   */
+  public async summarizeHistory(summarize: HistorySummarizer): Promise<boolean> {
+    if (this.history.totalTokens <= this.maxInputTokens * SUMMARIZE_THRESHOLD) {
+      return false;
+    }
+
+    const messages = this.history.messages;
+    const markerIndex = messages.findIndex(
+      m => m.message instanceof HumanMessage && m.message.content === HISTORY_START_MARKER,
+    );
+    const start = markerIndex + 1;
+    let end = messages.length - KEEP_RECENT_MESSAGES;
+    // never separate a tool message from the tool call it answers
+    while (end > start && messages[end].message instanceof ToolMessage) {
+      end--;
+    }
+    if (markerIndex < 0 || end - start < 2) {
+      return false;
+    }
+
+    const oldMessages = messages.slice(start, end).map(m => m.message);
+    const summary = await summarize(oldMessages);
+    const removedTokens = messages.slice(start, end).reduce((total, m) => total + m.metadata.inputTokens, 0);
+    for (let i = end - 1; i >= start; i--) {
+      this.history.removeMessage(i);
+    }
+    this.addMessageWithTokens(new HumanMessage({ content: `${SUMMARY_PREFIX}${summary}` }), start);
+    logger.info(
+      `Summarized ${oldMessages.length} messages (${removedTokens} tokens) - total tokens now: ${this.history.totalTokens}/${this.maxInputTokens}`,
+    );
+    return true;
+  }
+
+  /**
+   * Removes the images of a message and keeps its text
+   * @param managed - The message to remove the images of
+   * @returns The number of tokens removed
+   */
+  private _removeImages(managed: ManagedMessage): number {
+    if (!Array.isArray(managed.message.content)) {
+      return 0;
+    }
+    let removedTokens = 0;
+    let text = '';
+    for (const item of managed.message.content) {
+      if ('image_url' in item) {
+        removedTokens += this.IMG_TOKENS;
+        managed.metadata.inputTokens -= this.IMG_TOKENS;
+        this.history.totalTokens -= this.IMG_TOKENS;
+        logger.debug(
+          `Removed image with ${this.IMG_TOKENS} tokens - total tokens now: ${this.history.totalTokens}/${this.maxInputTokens}`,
+        );
+      } else if ('text' in item) {
+        text += item.text;
+      }
+    }
+    managed.message.content = text;
+    return removedTokens;
   }
 
   /**
@@ -276,26 +450,7 @@ export default class MessageManager {
     const lastMsg = this.history.messages[this.history.messages.length - 1];
 
     // if list with image remove image
-    if (Array.isArray(lastMsg.message.content)) {
-      let text = '';
-      lastMsg.message.content = lastMsg.message.content.filter(item => {
-        if ('image_url' in item) {
-          diff -= this.IMG_TOKENS;
-          lastMsg.metadata.inputTokens -= this.IMG_TOKENS;
-          this.history.totalTokens -= this.IMG_TOKENS;
-          logger.debug(
-            `Removed image with ${this.IMG_TOKENS} tokens - total tokens now: ${this.history.totalTokens}/${this.maxInputTokens}`,
-          );
-          return false;
-        }
-        if ('text' in item) {
-          text += item.text;
-        }
-        return true;
-      });
-      lastMsg.message.content = text;
-      this.history.messages[this.history.messages.length - 1] = lastMsg;
-    }
+    diff -= this._removeImages(lastMsg);
 
     if (diff <= 0) return;
 
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createTokenizer } from './tokenizer';
+
+describe('createTokenizer', () => {
+  it('counts the tokens of OpenAI models exactly', () => {
+    const tokenizer = createTokenizer('openai/gpt-4o');
+    expect(tokenizer.name).toBe('o200k_base');
+    expect(tokenizer.countTokens('hello world')).toBe(2);
+  });
+
+  it('counts special tokens in the text as plain text', () => {
+    const tokenizer = createTokenizer('gpt-4');
+    expect(tokenizer.countTokens('page text <|endoftext|> more text')).toBeGreaterThan(3);
+  });
+
+  it('estimates the tokens of models without a known encoding', () => {
+    const tokenizer = createTokenizer('claude-3-5-sonnet');
+    expect(tokenizer.name).toBe('estimated');
+    expect(tokenizer.countTokens('a'.repeat(35))).toBe(10);
+  });
+});
@@ -0,0 +1,85 @@
+import { getEncoding as loadEncoding, type Tiktoken, type TiktokenEncoding } from 'js-tiktoken';
+import { createLogger } from '@src/background/log';
+
+const logger = createLogger('Tokenizer');
+
+/**
+ * Counts the tokens of a text, used to keep the message history within the model's input limit
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+/**
+ * Estimates the token count from the average number of characters per token
+ */
+export class EstimatedTokenizer implements Tokenizer {
+  readonly name = 'estimated';
+
+  constructor(private readonly charactersPerToken = 3) {}
+
+  countTokens(text: string): number {
+    return Math.floor(text.length / this.charactersPerToken);
+  }
+}
+
+/**
+ * Byte pair encoding tokenizer, exact for OpenAI models
+ */
+export class BPETokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private readonly encoding: Tiktoken,
+  ) {}
+
+  countTokens(text: string): number {
+    // special tokens like <|endoftext|> in page text or user input are counted as plain text, like the APIs do
+    return this.encoding.encode(text, [], []).length;
+  }
+}
+
+// Encodings of OpenAI-style models, matched against the model name.
+// The ranks are bundled with the extension, nothing is downloaded at runtime.
+const BPE_ENCODINGS: { pattern: RegExp; name: TiktokenEncoding }[] = [
+  { pattern: /^(gpt-4o|gpt-4\.1|gpt-4\.5|chatgpt-4o|o1|o3|o4)/, name: 'o200k_base' },
+  { pattern: /^(gpt-4|gpt-3\.5)/, name: 'cl100k_base' },
+];
+
+// Encodings are expensive to build, they are shared by all tasks
+const encodings = new Map<string, Tiktoken>();
+
+function getEncoding(name: TiktokenEncoding): Tiktoken {
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = loadEncoding(name);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+}
+
+// Average characters per token of models without a public encoding
+const CHARACTERS_PER_TOKEN: { pattern: RegExp; charactersPerToken: number }[] = [
+  { pattern: /^claude/, charactersPerToken: 3.5 },
+  { pattern: /^gemini/, charactersPerToken: 4 },
+];
+
+/**
+ * Create the tokenizer for a model, falling back to an estimate when the model has no known encoding
+ * @param modelName - The model name, provider prefixes like openai/gpt-4o are ignored
+ */
+export function createTokenizer(modelName: string): Tokenizer {
+  const name = modelName.toLowerCase().split('/').pop() ?? '';
+
+  const bpe = BPE_ENCODINGS.find(({ pattern }) => pattern.test(name));
+  if (bpe) {
+    try {
+      return new BPETokenizer(bpe.name, getEncoding(bpe.name));
+    } catch (error) {
+      logger.warning(`Failed to load the ${bpe.name} encoding, estimating tokens instead`, error);
+    }
+  }
+
+  const estimate = CHARACTERS_PER_TOKEN.find(({ pattern }) => pattern.test(name));
+  return new EstimatedTokenizer(estimate?.charactersPerToken);
+}
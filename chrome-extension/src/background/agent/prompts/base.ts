@@ -1,9 +1,14 @@
 import { HumanMessage, type SystemMessage } from '@langchain/core/messages';
 import type { AgentContext } from '@src/background/agent/types';
 import { createLogger } from '@src/background/log';
+import type { BrowserState } from '@src/background/browser/types';
+import type { DOMStateDiff } from '@src/background/dom/diff';
 
 const logger = createLogger('agent/prompts/base');
 
+// maximum number of removed elements listed in the state message
+const MAX_REMOVED_ELEMENTS = 20;
+
 /**
  * Abstract base class for all prompt types
  */
@@ -28,7 +33,28 @@ abstract class BasePrompt {
    */
   async buildBrowserStateUserMessage(context: AgentContext): Promise<HumanMessage> {
     const browserState = await context.browserContext.getState();
-    const elementsText = browserState.elementTree.clickableElementsToString(context.options.includeAttributes);
+    return this.formatBrowserStateUserMessage(context, browserState);
+  }
+
+  /**
+   * Formats the browser state into the user message
+   * @param context - The agent context
+   * @param browserState - The current browser state
+   * @param diff - The difference to a previous state of the page, used to mark new, changed and removed elements
+   * @param onlyChanges - Only describe the changes of the diff, the previous state is in the memory
+   * @returns HumanMessage from LangChain
+   */
+  formatBrowserStateUserMessage(
+    context: AgentContext,
+    browserState: BrowserState,
+    diff: DOMStateDiff | null = null,
+    onlyChanges = false,
+  ): HumanMessage {
+    const elementsText = browserState.elementTree.clickableElementsToString(
+      context.options.includeAttributes,
+      diff,
+      onlyChanges,
+    );
 
     const hasContentAbove = (browserState.pixelsAbove || 0) > 0;
     const hasContentBelow = (browserState.pixelsBelow || 0) > 0;
@@ -47,9 +73,32 @@ abstract class BasePrompt {
         formattedElementsText = `${formattedElementsText}\n[End of page]`;
       }
     } else {
-      formattedElementsText = 'empty page';
+      formattedElementsText = onlyChanges ? 'no changes' : 'empty page';
     }
 
+    if (diff && diff.removed.length > 0) {
+      const removedElements = diff.removed
+        .slice(0, MAX_REMOVED_ELEMENTS)
+        .map(node => `<${node.tagName}>${node.getAllTextTillNextClickableElement()}</${node.tagName}>`);
+      if (diff.removed.length > MAX_REMOVED_ELEMENTS) {
+        removedElements.push(`... ${diff.removed.length - MAX_REMOVED_ELEMENTS} more`);
+      }
+      formattedElementsText = `${formattedElementsText}\nRemoved elements:\n${removedElements.join('\n')}`;
+    }
+
+    let dialogDescription = '';
+    if (browserState.dialog) {
+      const { type, message, defaultValue, handled } = browserState.dialog;
+      const prompt = type === 'prompt' ? `, default text: "${defaultValue}"` : '';
+      dialogDescription = handled
+        ? `The page opened a ${type} dialog: "${message}"${prompt}, it was ${handled} automatically`
+        : `Open ${type} dialog: "${message}"${prompt} - the page is blocked until you handle it with handle_dialog`;
+    }
+
+    const elementsDescription = onlyChanges
+      ? 'Changes of the interactive elements since the last full page state in your memory'
+      : 'Interactive elements from current page';
+
     let stepInfoDescription = '';
     if (context.stepInfo) {
       stepInfoDescription = `Current step: ${context.stepInfo.stepNumber + 1}/${context.stepInfo.maxSteps}`;
@@ -81,9 +130,12 @@ abstract class BasePrompt {
     Other available tabs:
     ${browserState.tabs
       .filter(tab => tab.id !== browserState.tabId)
-      .map(tab => ` - {id: ${tab.id}, url: ${tab.url}, title: ${tab.title}}`)
+      .map(
+        tab => ` - {id: ${tab.id}, url: ${tab.url}, title: ${tab.title}}${tab.openedByAgent ? ' (opened by you)' : ''}`,
+      )
       .join('\n')}
-    Interactive elements from current page:
+    ${dialogDescription}
+    ${elementsDescription}:
     ${formattedElementsText}
     ${stepInfoDescription}
     ${actionResultsDescription}`;
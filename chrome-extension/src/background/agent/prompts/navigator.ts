@@ -2,6 +2,11 @@
 import { BasePrompt } from './base';
 import { type HumanMessage, SystemMessage } from '@langchain/core/messages';
 import type { AgentContext } from '@src/background/agent/types';
+import type { BrowserState } from '@src/background/browser/types';
+import { countChanges, diffDOMStates } from '@src/background/dom/diff';
+
+// a full page state is sent again when more than this share of the elements changed since the last one
+const MAX_CHANGED_SHARE = 0.5;
 
 export class NavigatorPrompt extends BasePrompt {
   private readonly default_action_description = 'A placeholder action description';
@@ -56,7 +61,10 @@ export class NavigatorPrompt extends BasePrompt {
    - Handle popups/cookies by accepting or closing them
    - Use scroll to find elements you are looking for
    - If you want to research something, open a new tab instead of using the current tab
+   - Close the tabs you opened with close_tab once you no longer need them, use list_tabs to find them
    - If captcha pops up, and you cant solve it, either ask for human help or try to continue the task on a different page.
+   - If the page is still loading or content appears after a delay, use wait_for instead of repeating actions
+   - If the state shows an open dialog (alert, confirm, prompt), handle it with handle_dialog before any other action
 
 5. TASK COMPLETION:
    - Use the done action as the last action as soon as the ultimate task is complete
@@ -73,9 +81,11 @@ export class NavigatorPrompt extends BasePrompt {
    - Most often the label is inside the bounding box, on the top right
    - Visual context helps verify element locations and relationships
    - sometimes labels overlap, so use the context to verify the correct element
+   - For things without an index (canvas, maps, sliders, drag handles, hover menus), use click_coordinates, drag_and_drop or hover with pixel positions from the top left of the screenshot
 
 7. Form filling:
    - If you fill an input field and your action sequence is interrupted, most often a list with suggestions popped up under the field and you need to first select the right element from the suggestion list.
+   - To upload a file, use upload_file with the index of the file upload element and the name of a file the user attached, don't click the element as the file dialog can not be used
 
 8. ACTION SEQUENCING:
    - Actions are executed in the order they appear in the list
@@ -104,6 +114,12 @@ export class NavigatorPrompt extends BasePrompt {
      - Combine all cached content with the current state
      - Verify all required information is collected
      - Present the complete findings in the done action
+- If the task gives a JSON schema for the data, use the extract_structured action with the schema instead of caching the findings:
+  - Pass the schema exactly as given in the task as a JSON string
+  - Call it once per page, the extracted records are combined into one dataset
+- If the task asks to save the results to a file, use the save_file action with the complete content in Markdown, JSON or CSV
+- If the page loads its data in the background (lists, search results, dashboards), get_network_responses may return the data more completely than the page content
+- If a link downloads a CSV, JSON or TXT file, wait for the download complete message and use read_download to read the file
 - Important extraction guidelines:
   - Be thorough and specific when extracting information
   - Always cache findings before scrolling to avoid losing information
@@ -129,6 +145,10 @@ Example:
 [33]<button>Submit Form</button>
 [] Non-interactive text
 
+- Elements that are new since the last full listing of the page are marked with *, e.g. *[34]<button>Next</button>
+- Elements whose text or attributes changed since the last full listing of the page are marked with ~
+- If only the changes since the last full page state are listed, unchanged elements are listed as ranges, e.g. "[5-12] unchanged, was [4-11]" means the elements [4-11] of the full page state in your memory now have the indices 5 to 12
+
 
 Notes:
 - Only elements with numeric indexes inside [] are interactive
@@ -161,6 +181,32 @@ Remember: Your responses must be valid JSON matching the specified format. Each
   }
 
   async getUserMessage(context: AgentContext): Promise<HumanMessage> {
-    return await this.buildBrowserStateUserMessage(context);
+    const browserState = await context.browserContext.getState();
+    const lastPageState = context.lastPageState;
+    context.lastPageState = browserState;
+
+    const baseline = context.pageStateBaseline;
+    if (context.options.sendPageChangesOnly && baseline && context.messageManager.hasMessage(baseline.message)) {
+      if (isSamePage(baseline.state, browserState)) {
+        const diff = await diffDOMStates(baseline.state, browserState);
+        if (countChanges(diff) <= browserState.selectorMap.size * MAX_CHANGED_SHARE) {
+          return this.formatBrowserStateUserMessage(context, browserState, diff, true);
+        }
+      }
+      // the page changed too much, replace the full page state in memory
+      context.messageManager.removeMessage(baseline.message);
+    }
+
+    const diff =
+      lastPageState && isSamePage(lastPageState, browserState)
+        ? await diffDOMStates(lastPageState, browserState)
+        : null;
+    const message = this.formatBrowserStateUserMessage(context, browserState, diff);
+    context.pageStateBaseline = context.options.sendPageChangesOnly ? { state: browserState, message } : null;
+    return message;
   }
 }
+
+function isSamePage(previous: BrowserState, current: BrowserState): boolean {
+  return previous.tabId === current.tabId && previous.url === current.url;
+}
@@ -1,8 +1,12 @@
 import { z } from 'zod';
+import type { HumanMessage } from '@langchain/core/messages';
 import type BrowserContext from '../browser/context';
+import type { BrowserState } from '../browser/types';
 import type MessageManager from './messages/service';
 import type { EventManager } from './event/manager';
-import { type Actors, type ExecutionState, AgentEvent } from './event/types';
+import { Actors, ExecutionState, AgentEvent } from './event/types';
+import type { ApprovalPolicy } from './actions/approval';
+import { type MacroAction, type ModelPricesConfig, tokenUsageStore } from '@extension/storage';
 
 export interface AgentOptions {
   maxSteps: number;
@@ -17,6 +21,8 @@ export interface AgentOptions {
   validateOutput: boolean;
   includeAttributes: string[];
   planningInterval: number;
+  // keep the full page state in memory and only describe the changes of the page on later steps
+  sendPageChangesOnly: boolean;
 }
 
 export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
@@ -43,8 +49,15 @@ export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
     'aria-expanded',
   ],
   planningInterval: 3,
+  sendPageChangesOnly: false,
 };
 
+// Full page state kept in the navigator's memory, the following state messages only describe the changes since it
+export interface PageStateBaseline {
+  state: BrowserState;
+  message: HumanMessage;
+}
+
 export class AgentContext {
   taskId: string;
   browserContext: BrowserContext;
@@ -59,6 +72,18 @@ export class AgentContext {
   stepInfo: AgentStepInfo | null;
   actionResults: ActionResult[];
   stateMessageAdded: boolean;
+  approvalPolicy: ApprovalPolicy | null;
+  // successful actions of the task, saved as a macro when the task succeeds
+  recordedActions: MacroAction[];
+  // prices used to calculate the cost of the LLM calls, keyed by model name
+  modelPrices: ModelPricesConfig;
+  // page state of the last state message, new and changed elements are marked against it
+  lastPageState: BrowserState | null;
+  pageStateBaseline: PageStateBaseline | null;
+  // downloads of the attached files written to disk for uploads, removed when the task ends
+  uploadDownloadIds: number[];
+  // resolves the action that is waiting for the user's approval
+  private approvalResolver: ((approved: boolean) => void) | null;
   constructor(
     taskId: string,
     browserContext: BrowserContext,
@@ -80,6 +105,13 @@ export class AgentContext {
     this.stepInfo = null;
     this.actionResults = [];
     this.stateMessageAdded = false;
+    this.approvalPolicy = null;
+    this.recordedActions = [];
+    this.modelPrices = {};
+    this.lastPageState = null;
+    this.pageStateBaseline = null;
+    this.uploadDownloadIds = [];
+    this.approvalResolver = null;
   }
 
   async emitEvent(actor: Actors, state: ExecutionState, eventDetails: string) {
@@ -92,6 +124,44 @@ export class AgentContext {
     await this.eventManager.emit(event);
   }
 
+  /**
+   * Add the tokens consumed by an LLM call to the usage of the task's chat session
+   * @param agent - The name of the agent that made the call
+   * @param modelName - The model that was called, used to look up its price
+   */
+  async recordUsage(agent: string, modelName: string, inputTokens: number, outputTokens: number) {
+    const price = this.modelPrices[modelName];
+    const cost = price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+    await tokenUsageStore.addUsage(this.taskId, agent, { inputTokens, outputTokens, cost });
+  }
+
+  /**
+   * Emit an approval request and wait until the user approves or rejects the action
+   * @param details - Description of the action shown to the user
+   * @returns Whether the action was approved
+   */
+  async requestApproval(details: string): Promise<boolean> {
+    const approval = new Promise<boolean>(resolve => {
+      this.approvalResolver = resolve;
+    });
+    await this.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_APPROVAL_REQUIRED, details);
+    return approval;
+  }
+
+  /**
+   * Approve or reject the action that is waiting for approval
+   * @returns Whether an action was waiting for approval
+   */
+  resolveApproval(approved: boolean): boolean {
+    if (!this.approvalResolver) {
+      return false;
+    }
+    const resolve = this.approvalResolver;
+    this.approvalResolver = null;
+    resolve(approved);
+    return true;
+  }
+
   async pause() {
     this.paused = true;
   }
@@ -102,6 +172,8 @@ export class AgentContext {
 
   async stop() {
     this.stopped = true;
+    // a stopped task never runs the action that is waiting for approval
+    this.resolveApproval(false);
   }
 }
 
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import BrowserContext, { URLNotAllowedError } from './context';
+
+vi.mock('webextension-polyfill', () => ({}));
+
+// Page without puppeteer, it navigates in a history of urls
+vi.mock('./page', () => {
+  class FakePage {
+    tabId: number;
+    attached = false;
+    private _history: string[];
+
+    constructor(tabId: number, url: string) {
+      this.tabId = tabId;
+      this._history = [url];
+    }
+
+    url(): string {
+      return this._history[this._history.length - 1];
+    }
+
+    navigate(url: string): void {
+      this._history.push(url);
+    }
+
+    goBack = vi.fn(async () => {
+      if (this._history.length > 1) {
+        this._history.pop();
+      }
+    });
+
+    async attachPuppeteer(): Promise<boolean> {
+      this.attached = true;
+      return true;
+    }
+
+    async detachPuppeteer(): Promise<void> {
+      this.attached = false;
+    }
+
+    async removeHighlight(): Promise<void> {}
+
+    updateConfig(): void {}
+  }
+  return { default: FakePage, build_initial_state: () => ({}) };
+});
+
+interface FakePage {
+  tabId: number;
+  url(): string;
+  navigate(url: string): void;
+  goBack: ReturnType<typeof vi.fn>;
+}
+
+const tabs = new Map<number, chrome.tabs.Tab>();
+
+function addTab(id: number, url: string, active = false): void {
+  tabs.set(id, { id, url, title: url, active, status: 'complete', windowId: 1 } as chrome.tabs.Tab);
+}
+
+const listeners = () => ({ addListener: vi.fn(), removeListener: vi.fn() });
+
+const chromeMock = {
+  runtime: { id: 'extension' },
+  tabs: {
+    get: vi.fn(async (tabId: number) => {
+      const tab = tabs.get(tabId);
+      if (!tab) {
+        throw new Error(`No tab with id: ${tabId}`);
+      }
+      return { ...tab };
+    }),
+    query: vi.fn(async () => Array.from(tabs.values())),
+    update: vi.fn(async (tabId: number, properties: chrome.tabs.UpdateProperties) => {
+      const tab = tabs.get(tabId);
+      if (tab) {
+        Object.assign(tab, properties);
+      }
+      return tab;
+    }),
+    remove: vi.fn(async (tabId: number) => {
+      tabs.delete(tabId);
+    }),
+    goBack: vi.fn(async () => {}),
+    onUpdated: listeners(),
+    onActivated: listeners(),
+  },
+  downloads: {
+    onCreated: listeners(),
+    onChanged: listeners(),
+  },
+};
+
+describe('BrowserContext domain settings', () => {
+  let context: BrowserContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('chrome', chromeMock);
+    tabs.clear();
+    addTab(1, 'https://allowed.com/', true);
+    context = new BrowserContext({ allowedDomains: ['allowed.com'], deniedDomains: [] });
+    context.updateCurrentTabId(1);
+  });
+
+  it('goes back when a click followed a link to a domain that is not allowed', async () => {
+    const page = (await context.getCurrentPage()) as unknown as FakePage;
+    page.navigate('https://blocked.com/');
+
+    await expect(context.getCurrentPage()).rejects.toThrow(URLNotAllowedError);
+    expect(page.goBack).toHaveBeenCalled();
+    expect(page.url()).toBe('https://allowed.com/');
+    // the page is usable again
+    await expect(context.getCurrentPage()).resolves.toBe(page);
+  });
+
+  it('empties the tab when there is no allowed page to go back to', async () => {
+    const page = (await context.getCurrentPage()) as unknown as FakePage;
+    page.navigate('https://blocked.com/');
+    page.goBack.mockResolvedValueOnce(undefined);
+
+    await expect(context.getCurrentPage()).rejects.toThrow(URLNotAllowedError);
+    expect(chromeMock.tabs.update).toHaveBeenCalledWith(1, { url: 'about:blank' });
+    expect(chromeMock.tabs.remove).not.toHaveBeenCalled();
+  });
+
+  it('closes a tab opened by a click on a link to a domain that is not allowed', async () => {
+    await context.getCurrentPage();
+    addTab(2, 'https://blocked.com/');
+    context.trackOpenedTab(2);
+
+    await expect(context.switchTab(2)).rejects.toThrow(URLNotAllowedError);
+    expect(chromeMock.tabs.remove).toHaveBeenCalledWith(2);
+    expect(context.getCurrentTabId()).toBe(1);
+  });
+
+  it('does not switch to a tab of the user on a domain that is not allowed', async () => {
+    await context.getCurrentPage();
+    addTab(3, 'https://blocked.com/');
+
+    await expect(context.switchTab(3)).rejects.toThrow(URLNotAllowedError);
+    expect(chromeMock.tabs.remove).not.toHaveBeenCalled();
+    expect(chromeMock.tabs.update).not.toHaveBeenCalled();
+    expect(context.getCurrentTabId()).toBe(1);
+  });
+
+  it('switches to a tab on an allowed domain', async () => {
+    addTab(2, 'https://www.allowed.com/page');
+    context.trackOpenedTab(2);
+
+    const page = (await context.switchTab(2)) as unknown as FakePage;
+    expect(page.tabId).toBe(2);
+    expect(context.getCurrentTabId()).toBe(2);
+  });
+});
@@ -1,13 +1,53 @@
 import 'webextension-polyfill';
 import { type BrowserContextConfig, type BrowserState, DEFAULT_BROWSER_CONTEXT_CONFIG, type TabInfo } from './types';
 import Page, { build_initial_state } from './page';
+import { type DownloadEvent, DownloadMonitor } from './downloads';
+import { matchesDomainPattern } from './domains';
 import { createLogger } from '@src/background/log';
+import { TabIsolationEnum } from '@extension/storage';
 
 const logger = createLogger('BrowserContext');
+
+export class URLNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'URLNotAllowedError';
+  }
+}
+
+// Colors of the tab groups, a task always gets the same color
+const TAB_GROUP_COLORS: chrome.tabGroups.ColorEnum[] = [
+  'blue',
+  'red',
+  'yellow',
+  'green',
+  'pink',
+  'purple',
+  'cyan',
+  'orange',
+  'grey',
+];
+// Longer task descriptions are cut in the tab group title
+const MAX_TAB_GROUP_TITLE_LENGTH = 30;
+
+function tabGroupColor(title: string): chrome.tabGroups.ColorEnum {
+  let hash = 0;
+  for (const char of title) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return TAB_GROUP_COLORS[Math.abs(hash) % TAB_GROUP_COLORS.length];
+}
+
 export default class BrowserContext {
-  private readonly _config: BrowserContextConfig;
+  private _config: BrowserContextConfig;
   private _currentTabId: number | null = null;
   private _attachedPages: Map<number, Page> = new Map();
+  private _downloadMonitor = new DownloadMonitor(() => this._queryTaskTabs());
+  // tab group or window the tabs are kept in, see tabIsolation in the config
+  private _groupId: number | null = null;
+  private _windowId: number | null = null;
+  // tabs the agent opened, the other tabs are the user's own
+  private _openedTabIds: Set<number> = new Set();
 
   constructor(config: Partial<BrowserContextConfig>) {
     this._config = { ...DEFAULT_BROWSER_CONTEXT_CONFIG, ...config };
@@ -17,11 +57,257 @@ export default class BrowserContext {
     return this._config;
   }
 
+  /**
+   * Update the config while the context is in use, e.g. after the browser settings changed.
+   * The attached pages use the new config from their next action or state update.
+   * @param config - The config values to change
+   */
+  public updateConfig(config: Partial<BrowserContextConfig>): void {
+    this._config = { ...this._config, ...config };
+    for (const page of this._attachedPages.values()) {
+      page.updateConfig(config);
+    }
+  }
+
   public updateCurrentTabId(tabId: number): void {
     // only update tab id, but don't attach it.
     this._currentTabId = tabId;
   }
 
+  public getCurrentTabId(): number | null {
+    return this._currentTabId;
+  }
+
+  /**
+   * True when the tabs are kept in a tab group or window of their own
+   */
+  public get isolated(): boolean {
+    return this._groupId !== null || this._windowId !== null;
+  }
+
+  /**
+   * Move the work into a tab group or window of its own, so that the user's tab is never taken over.
+   * The current tab is opened again in the new tab group or window, the user's tab is left as it is.
+   * If the tab group or window exists already, it is expanded or restored.
+   * Does nothing when tabIsolation is off in the config.
+   * @param title - The title of the tab group, e.g. the task, its color is derived from it
+   */
+  public async isolate(title: string): Promise<void> {
+    const { tabIsolation } = this._config;
+    if (tabIsolation === TabIsolationEnum.None) {
+      return;
+    }
+
+    const tabs = await this._queryIsolatedTabs();
+    if (tabs.length > 0) {
+      if (this._groupId !== null) {
+        await chrome.tabGroups.update(this._groupId, { collapsed: false });
+      } else if (this._windowId !== null) {
+        await chrome.windows.update(this._windowId, { state: 'normal' });
+      }
+      if (!tabs.some(tab => tab.id === this._currentTabId)) {
+        this._currentTabId = tabs[tabs.length - 1].id ?? null;
+      }
+      return;
+    }
+
+    // the tab group or window is gone, e.g. the user closed it
+    this._groupId = null;
+    this._windowId = null;
+    const startTab = this._currentTabId ? await chrome.tabs.get(this._currentTabId).catch(() => null) : null;
+    const url = startTab?.url?.startsWith('http') ? startTab.url : this._config.homePageUrl;
+
+    let tabId: number | undefined;
+    if (tabIsolation === TabIsolationEnum.Window) {
+      const { width, height } = this._config.browserWindowSize;
+      const window = await chrome.windows.create({ url, focused: false, width, height });
+      tabId = window.tabs?.[0]?.id;
+      this._windowId = window.id ?? null;
+    } else {
+      const tab = await chrome.tabs.create({
+        url,
+        active: false,
+        windowId: startTab?.windowId,
+        index: startTab ? startTab.index + 1 : undefined,
+      });
+      tabId = tab.id;
+      if (tabId) {
+        this._groupId = await chrome.tabs.group({ tabIds: tabId });
+        await chrome.tabGroups.update(this._groupId, {
+          title:
+            title.length > MAX_TAB_GROUP_TITLE_LENGTH ? `${title.slice(0, MAX_TAB_GROUP_TITLE_LENGTH - 1)}…` : title,
+          color: tabGroupColor(title),
+        });
+      }
+    }
+    if (!tabId) {
+      throw new Error('No tab ID available');
+    }
+    logger.info('isolated', tabIsolation, this._groupId ?? this._windowId, tabId);
+    this._openedTabIds.add(tabId);
+    this._currentTabId = tabId;
+  }
+
+  /**
+   * Put the tab group or window away after the work is done
+   * @param close - Close the tab group or window, otherwise the tab group is collapsed and the window minimized
+   */
+  public async releaseIsolation(close: boolean): Promise<void> {
+    try {
+      if (this._groupId !== null) {
+        if (close) {
+          const tabIds = (await this._queryIsolatedTabs()).map(tab => tab.id).filter(id => id !== undefined);
+          if (tabIds.length > 0) {
+            await chrome.tabs.remove(tabIds);
+          }
+        } else {
+          await chrome.tabGroups.update(this._groupId, { collapsed: true });
+        }
+      } else if (this._windowId !== null) {
+        if (close) {
+          await chrome.windows.remove(this._windowId);
+        } else {
+          await chrome.windows.update(this._windowId, { state: 'minimized' });
+        }
+      }
+    } catch (error) {
+      // the user may have closed the tab group or window already
+      logger.warning('Failed to release the tab group or window', error);
+    }
+    if (close) {
+      this._groupId = null;
+      this._windowId = null;
+      this._currentTabId = null;
+    }
+  }
+
+  /**
+   * Get the tabs of the tab group or window, empty if there is none or it was closed
+   */
+  private async _queryIsolatedTabs(): Promise<chrome.tabs.Tab[]> {
+    try {
+      if (this._groupId !== null) {
+        return await chrome.tabs.query({ groupId: this._groupId });
+      }
+      if (this._windowId !== null) {
+        return await chrome.tabs.query({ windowId: this._windowId });
+      }
+    } catch (error) {
+      logger.warning('Failed to query the isolated tabs', error);
+    }
+    return [];
+  }
+
+  /**
+   * Get the tabs the task works in: the tabs of the tab group or window, the attached tabs and the tabs the agent opened
+   */
+  private async _queryTaskTabs(): Promise<chrome.tabs.Tab[]> {
+    const tabs = await this._queryIsolatedTabs();
+    const tabIds = new Set([...this._attachedPages.keys(), ...this._openedTabIds]);
+    for (const tab of tabs) {
+      tabIds.delete(tab.id ?? -1);
+    }
+    for (const tabId of tabIds) {
+      const tab = await chrome.tabs.get(tabId).catch(() => null);
+      if (tab) {
+        tabs.push(tab);
+      }
+    }
+    return tabs;
+  }
+
+  /**
+   * Create a tab, in the tab group or window when the tabs are isolated.
+   * Tabs of a tab group are not activated, they are in the user's window.
+   */
+  private async _createTab(url: string): Promise<chrome.tabs.Tab> {
+    let tab: chrome.tabs.Tab;
+    if (this._windowId !== null) {
+      tab = await chrome.tabs.create({ url, windowId: this._windowId, active: true });
+    } else if (this._groupId !== null) {
+      const { windowId } = await chrome.tabGroups.get(this._groupId);
+      tab = await chrome.tabs.create({ url, windowId, active: false });
+      if (tab.id) {
+        await chrome.tabs.group({ groupId: this._groupId, tabIds: tab.id });
+      }
+    } else {
+      tab = await chrome.tabs.create({ url, active: true });
+    }
+    if (tab.id) {
+      this._openedTabIds.add(tab.id);
+    }
+    return tab;
+  }
+
+  /**
+   * Remember a tab the agent opened without the context, e.g. by clicking a link that opens a new tab
+   */
+  public trackOpenedTab(tabId: number): void {
+    this._openedTabIds.add(tabId);
+  }
+
+  public isOpenedTab(tabId: number): boolean {
+    return this._openedTabIds.has(tabId);
+  }
+
+  /**
+   * Close the tabs the agent opened, e.g. when the task is done. The user's own tabs are left open.
+   * When the tabs are isolated, the current tab is kept so that the tab group or window stays.
+   */
+  public async closeOpenedTabs(): Promise<void> {
+    const tabIds = Array.from(this._openedTabIds).filter(id => !this.isolated || id !== this._currentTabId);
+    for (const tabId of tabIds) {
+      try {
+        await this.closeTab(tabId);
+      } catch (error) {
+        // the tab may have been closed by the user already
+        logger.warning('Failed to close tab', tabId, error);
+        this._openedTabIds.delete(tabId);
+      }
+    }
+  }
+
+  private _assertTabIsolated(tabId: number, tabIds: Set<number>): void {
+    if (this.isolated && !tabIds.has(tabId)) {
+      throw new Error(`Tab ${tabId} is not one of the tabs of this task, switch to one of the listed tabs`);
+    }
+  }
+
+  /**
+   * Check if the url is allowed by the allowed and denied domains in the config.
+   * Only http(s) urls are restricted.
+   * @param url - The url to check
+   * @returns True if the browser may visit the url
+   */
+  public isUrlAllowed(url: string): boolean {
+    const { allowedDomains, deniedDomains } = this._config;
+    if (allowedDomains.length === 0 && deniedDomains.length === 0) {
+      return true;
+    }
+
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(url);
+    } catch {
+      return false;
+    }
+    if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+      return true;
+    }
+
+    const hostname = parsedUrl.hostname.toLowerCase();
+    if (deniedDomains.some(pattern => matchesDomainPattern(hostname, pattern))) {
+      return false;
+    }
+    return allowedDomains.length === 0 || allowedDomains.some(pattern => matchesDomainPattern(hostname, pattern));
+  }
+
+  private _assertUrlAllowed(url: string): void {
+    if (!this.isUrlAllowed(url)) {
+      throw new URLNotAllowedError(`URL ${url} is not allowed by the domain settings, try another website`);
+    }
+  }
+
   private async _getOrCreatePage(tab: chrome.tabs.Tab, forceUpdate = false): Promise<Page> {
     if (!tab.id) {
       throw new Error('Tab ID is not available');
@@ -42,7 +328,7 @@ export default class BrowserContext {
   }
 
   public async cleanup(): Promise<void> {
-    const currentPage = await this.getCurrentPage();
+    const currentPage = this._currentTabId !== null ? this._attachedPages.get(this._currentTabId) : undefined;
     currentPage?.removeHighlight();
     // detach all pages
     for (const page of this._attachedPages.values()) {
@@ -50,6 +336,7 @@ export default class BrowserContext {
     }
     this._attachedPages.clear();
     this._currentTabId = null;
+    this._downloadMonitor.stop();
   }
 
   public async attachPage(page: Page): Promise<boolean> {
@@ -63,11 +350,31 @@ export default class BrowserContext {
       logger.info('attachPage', page.tabId, 'attached');
       // add page to managed pages
       this._attachedPages.set(page.tabId, page);
+      // observe the downloads the attached pages start
+      this._downloadMonitor.start();
       return true;
     }
     return false;
   }
 
+  /**
+   * Get the downloads started or finished since the last call
+   */
+  public takeDownloadEvents(): DownloadEvent[] {
+    return this._downloadMonitor.takeEvents();
+  }
+
+  /**
+   * Read the content of a completed text download by its file name
+   */
+  public async readDownload(name: string): Promise<string> {
+    return this._downloadMonitor.readDownload(name);
+  }
+
+  public hasAttachedPage(tabId: number): boolean {
+    return this._attachedPages.has(tabId);
+  }
+
   public async detachPage(tabId: number): Promise<void> {
     // detach page
     const page = this._attachedPages.get(tabId);
@@ -78,14 +385,69 @@ export default class BrowserContext {
     }
   }
 
+  /**
+   * Get the page of the current tab, attached.
+   * A page that got to a domain that is not allowed, e.g. by a click on a link, is left first.
+   * @throws URLNotAllowedError if the page was on a domain that is not allowed
+   */
   public async getCurrentPage(): Promise<Page> {
+    const page = await this._getCurrentPage();
+    await this._leaveIfUrlNotAllowed(page);
+    return page;
+  }
+
+  /**
+   * Leave a page that is on a domain that is not allowed: it is navigated back, or closed if the agent opened it
+   * and there is no allowed page to go back to. The user's tab is emptied in that case.
+   * @throws URLNotAllowedError if the page was on a domain that is not allowed
+   */
+  private async _leaveIfUrlNotAllowed(page: Page): Promise<void> {
+    const url = page.url();
+    if (this.isUrlAllowed(url)) {
+      return;
+    }
+    logger.warning('page is on a domain that is not allowed', page.tabId, url);
+
+    const tabId = page.tabId;
+    try {
+      if (page.attached) {
+        await page.goBack();
+      } else {
+        await chrome.tabs.goBack(tabId);
+      }
+    } catch (error) {
+      // there may be no page to go back to
+      logger.warning('Failed to navigate back', tabId, error);
+    }
+    const tab = await chrome.tabs.get(tabId).catch(() => null);
+    const currentUrl = page.attached ? page.url() : (tab?.url ?? '');
+    if (tab && !this.isUrlAllowed(currentUrl)) {
+      try {
+        if (this._openedTabIds.has(tabId)) {
+          await this.closeTab(tabId);
+        } else {
+          await chrome.tabs.update(tabId, { url: 'about:blank' });
+        }
+      } catch (error) {
+        logger.error('Failed to leave the page that is not allowed', tabId, error);
+      }
+    }
+    throw new URLNotAllowedError(
+      `The page went to ${url}, which is not allowed by the domain settings, so it was left - try another website`,
+    );
+  }
+
+  private async _getCurrentPage(): Promise<Page> {
     // 1. If _currentTabId not set, query the active tab and attach it
     if (!this._currentTabId) {
       let activeTab: chrome.tabs.Tab;
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      // an isolated context never takes the user's active tab
+      const [tab] = this.isolated
+        ? (await this._queryIsolatedTabs()).reverse()
+        : await chrome.tabs.query({ active: true, currentWindow: true });
       if (!tab?.id) {
         // open a new tab with blank page
-        const newTab = await chrome.tabs.create({ url: this._config.homePageUrl });
+        const newTab = await this._createTab(this._config.homePageUrl);
         if (!newTab.id) {
           // this should rarely happen
           throw new Error('No tab ID available');
@@ -116,11 +478,11 @@ export default class BrowserContext {
   }
 
   /**
-   * Get all tab IDs from the browser and the current window.
+   * Get all tab IDs from the current window, or from the tab group or window when the tabs are isolated.
    * @returns A set of tab IDs.
    */
   public async getAllTabIds(): Promise<Set<number>> {
-    const tabs = await chrome.tabs.query({ currentWindow: true });
+    const tabs = this.isolated ? await this._queryIsolatedTabs() : await chrome.tabs.query({ currentWindow: true });
     return new Set(tabs.map(tab => tab.id).filter(id => id !== undefined));
   }
 
@@ -143,7 +505,7 @@ export default class BrowserContext {
     const promises: Promise<void>[] = [];
 
     if (waitForUpdate) {
-      const updatePromise = new Promise<void>(resolve => {
+      const updatePromise = new Promise<void>((resolve, reject) => {
         let hasUrl = false;
         let hasTitle = false;
         let isComplete = false;
@@ -151,6 +513,15 @@ export default class BrowserContext {
         const onUpdatedHandler = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
           if (updatedTabId !== tabId) return;
 
+          // the tab may be redirected to a domain that is not allowed
+          if (changeInfo.url && !this.isUrlAllowed(changeInfo.url)) {
+            chrome.tabs.onUpdated.removeListener(onUpdatedHandler);
+            reject(
+              new URLNotAllowedError(`Redirected to ${changeInfo.url}, which is not allowed by the domain settings`),
+            );
+            return;
+          }
+
           if (changeInfo.url) hasUrl = true;
           if (changeInfo.title) hasTitle = true;
           if (changeInfo.status === 'complete') isComplete = true;
@@ -165,6 +536,11 @@ export default class BrowserContext {
 
         // Check current state
         chrome.tabs.get(tabId).then(tab => {
+          if (tab.url && !this.isUrlAllowed(tab.url)) {
+            chrome.tabs.onUpdated.removeListener(onUpdatedHandler);
+            reject(new URLNotAllowedError(`Redirected to ${tab.url}, which is not allowed by the domain settings`));
+            return;
+          }
           if (tab.url) hasUrl = true;
           if (tab.title) hasTitle = true;
           if (tab.status === 'complete') isComplete = true;
@@ -208,9 +584,24 @@ export default class BrowserContext {
 
   public async switchTab(tabId: number): Promise<Page> {
     logger.info('switchTab', tabId);
+    if (this.isolated) {
+      this._assertTabIsolated(tabId, await this.getAllTabIds());
+    }
+    // the tab may be on a domain that is not allowed, e.g. a tab opened by a click on a link
+    const tab = await chrome.tabs.get(tabId);
+    const tabUrl = tab.pendingUrl || tab.url;
+    if (tabUrl && !this.isUrlAllowed(tabUrl)) {
+      if (this._openedTabIds.has(tabId)) {
+        await this.closeTab(tabId);
+      }
+      throw new URLNotAllowedError(`Tab ${tabId} is on ${tabUrl}, which is not allowed by the domain settings`);
+    }
 
-    await chrome.tabs.update(tabId, { active: true });
-    await this.waitForTabEvents(tabId, { waitForUpdate: false });
+    // tabs of a tab group stay in the background
+    if (this._groupId === null) {
+      await chrome.tabs.update(tabId, { active: true });
+      await this.waitForTabEvents(tabId, { waitForUpdate: false });
+    }
 
     const page = await this._getOrCreatePage(await chrome.tabs.get(tabId));
     await this.attachPage(page);
@@ -219,7 +610,10 @@ export default class BrowserContext {
   }
 
   public async navigateTo(url: string): Promise<void> {
-    const page = await this.getCurrentPage();
+    this._assertUrlAllowed(url);
+
+    // the current page is left anyway, it does not have to be allowed
+    const page = await this._getCurrentPage();
     if (!page) {
       await this.openTab(url);
       return;
@@ -227,13 +621,27 @@ export default class BrowserContext {
     // if page is attached, use puppeteer to navigate to the url
     if (page.attached) {
       await page.navigateTo(url);
+      // the page may have been redirected to a domain that is not allowed
+      const finalUrl = page.url();
+      if (!this.isUrlAllowed(finalUrl)) {
+        await page.goBack();
+        throw new URLNotAllowedError(`Redirected to ${finalUrl}, which is not allowed by the domain settings`);
+      }
       return;
     }
     //  Use chrome.tabs.update only if the page is not attached
     const tabId = page.tabId;
     // Update tab and wait for events
-    await chrome.tabs.update(tabId, { url, active: true });
-    await this.waitForTabEvents(tabId);
+    const activate = this._groupId === null;
+    await chrome.tabs.update(tabId, { url, active: activate });
+    try {
+      await this.waitForTabEvents(tabId, { waitForActivation: activate });
+    } catch (error) {
+      if (error instanceof URLNotAllowedError) {
+        await chrome.tabs.goBack(tabId);
+      }
+      throw error;
+    }
 
     // Reattach the page after navigation completes
     const updatedPage = await this._getOrCreatePage(await chrome.tabs.get(tabId), true);
@@ -242,13 +650,23 @@ export default class BrowserContext {
   }
 
   public async openTab(url: string): Promise<Page> {
+    this._assertUrlAllowed(url);
+
     // Create the new tab
-    const tab = await chrome.tabs.create({ url, active: true });
+    const tab = await this._createTab(url);
     if (!tab.id) {
       throw new Error('No tab ID available');
     }
     // Wait for tab events
-    await this.waitForTabEvents(tab.id);
+    try {
+      await this.waitForTabEvents(tab.id, { waitForActivation: tab.active });
+    } catch (error) {
+      // close the tab if it was redirected to a domain that is not allowed
+      if (error instanceof URLNotAllowedError) {
+        await chrome.tabs.remove(tab.id);
+      }
+      throw error;
+    }
 
     // Get updated tab information
     const updatedTab = await chrome.tabs.get(tab.id);
@@ -261,8 +679,12 @@ export default class BrowserContext {
   }
 
   public async closeTab(tabId: number): Promise<void> {
+    if (this.isolated) {
+      this._assertTabIsolated(tabId, await this.getAllTabIds());
+    }
     await this.detachPage(tabId);
     await chrome.tabs.remove(tabId);
+    this._openedTabIds.delete(tabId);
     // update current tab id if needed
     if (this._currentTabId === tabId) {
       this._currentTabId = null;
@@ -275,6 +697,7 @@ export default class BrowserContext {
    */
   public removeAttachedPage(tabId: number): void {
     this._attachedPages.delete(tabId);
+    this._openedTabIds.delete(tabId);
     // update current tab id if needed
     if (this._currentTabId === tabId) {
       this._currentTabId = null;
@@ -282,7 +705,8 @@ export default class BrowserContext {
   }
 
   public async getTabInfos(): Promise<TabInfo[]> {
-    const tabs = await chrome.tabs.query({});
+    // only the tabs of the tab group or window are offered when the tabs are isolated
+    const tabs = this.isolated ? await this._queryIsolatedTabs() : await chrome.tabs.query({});
     const tabInfos: TabInfo[] = [];
 
     for (const tab of tabs) {
@@ -291,6 +715,9 @@ export default class BrowserContext {
           id: tab.id,
           url: tab.url,
           title: tab.title,
+          openedByAgent: this._openedTabIds.has(tab.id),
+          active: tab.active,
+          loading: tab.status === 'loading',
         });
       }
     }
@@ -310,7 +737,7 @@ export default class BrowserContext {
   }
 
   public async removeHighlight(): Promise<void> {
-    const page = await this.getCurrentPage();
+    const page = await this._getCurrentPage();
     if (page) {
       await page.removeHighlight();
     }
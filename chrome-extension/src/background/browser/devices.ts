@@ -0,0 +1,19 @@
+import { DeviceEmulationEnum } from '@extension/storage';
+import { type Device, KnownDevices } from 'puppeteer-core/lib/esm/puppeteer/puppeteer-core-browser.js';
+
+export type MobileDevice = Exclude<DeviceEmulationEnum, DeviceEmulationEnum.None | DeviceEmulationEnum.Desktop>;
+
+// Puppeteer device of each mobile device, in portrait orientation
+const MOBILE_DEVICES: Record<MobileDevice, Device> = {
+  [DeviceEmulationEnum.IPhone15Pro]: KnownDevices['iPhone 15 Pro'],
+  [DeviceEmulationEnum.Pixel5]: KnownDevices['Pixel 5'],
+  [DeviceEmulationEnum.GalaxyS9]: KnownDevices['Galaxy S9+'],
+  [DeviceEmulationEnum.IPadMini]: KnownDevices['iPad Mini'],
+};
+
+/**
+ * Get the puppeteer device to emulate, null for the devices that are not mobile devices
+ */
+export function getMobileDevice(device: DeviceEmulationEnum): Device | null {
+  return MOBILE_DEVICES[device as MobileDevice] ?? null;
+}
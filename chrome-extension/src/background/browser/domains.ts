@@ -0,0 +1,21 @@
+/**
+ * Convert a domain glob pattern, e.g. *.example.com, into a regular expression matching hostnames.
+ * The expression also matches the subdomains of the domain the pattern describes.
+ * @returns null for an empty pattern
+ */
+export function domainPatternToRegExp(pattern: string): RegExp | null {
+  const normalized = pattern.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  const escaped = normalized.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^(?:.*\\.)?${escaped}$`);
+}
+
+/**
+ * Check if a hostname matches a domain glob pattern, e.g. *.example.com.
+ * A pattern also matches the subdomains of the domain it describes.
+ */
+export function matchesDomainPattern(hostname: string, pattern: string): boolean {
+  return domainPatternToRegExp(pattern)?.test(hostname) ?? false;
+}
@@ -0,0 +1,288 @@
+import { type BrowserDownload, DownloadStateEnum } from '@extension/storage';
+import { createLogger } from '@src/background/log';
+
+const logger = createLogger('DownloadMonitor');
+
+// Extensions of the downloaded files the agent can read
+const TEXT_FILE_EXTENSIONS = ['csv', 'json', 'txt'];
+// Largest downloaded file the agent can read, in bytes
+const MAX_READ_SIZE = 1024 * 1024;
+// Longest time to wait for a downloaded file to load in a tab, in milliseconds
+const FILE_LOAD_TIMEOUT = 10000;
+
+export enum DownloadEventEnum {
+  Started = 'started',
+  Completed = 'completed',
+  Failed = 'failed',
+}
+
+export interface DownloadEvent {
+  type: DownloadEventEnum;
+  download: BrowserDownload;
+}
+
+function toBrowserDownload(item: chrome.downloads.DownloadItem): BrowserDownload {
+  const path = item.filename ?? '';
+  const urlName = decodeURIComponent(new URL(item.finalUrl || item.url).pathname.split('/').pop() ?? '');
+  return {
+    id: item.id,
+    name: path.split(/[\\/]/).pop() || urlName || `download-${item.id}`,
+    path,
+    url: item.finalUrl || item.url,
+    mimeType: item.mime ?? '',
+    size: item.fileSize > 0 ? item.fileSize : Math.max(item.totalBytes, 0),
+    state: item.state as DownloadStateEnum,
+    error: item.error ?? null,
+    startedAt: new Date(item.startTime).getTime(),
+  };
+}
+
+// Url without its fragment, downloads are referred by the page url without it
+function withoutHash(url: string): string {
+  return url.split('#')[0];
+}
+
+/**
+ * Check if one of the tabs started the download: the page that referred the download is open in the tab,
+ * or the blob the download was made from belongs to the origin of the tab.
+ * Downloads of pages that send no referrer can not be told apart from the user's own, they are not matched.
+ */
+function isStartedByTabs(item: chrome.downloads.DownloadItem, tabs: chrome.tabs.Tab[]): boolean {
+  const tabUrls = tabs.flatMap(tab => [tab.url, tab.pendingUrl]).filter(url => url !== undefined);
+  if (item.referrer) {
+    return tabUrls.some(url => withoutHash(url) === withoutHash(item.referrer));
+  }
+  if (item.url.startsWith('blob:')) {
+    try {
+      const { origin } = new URL(item.url);
+      return tabUrls.some(url => url.startsWith('http') && new URL(url).origin === origin);
+    } catch {
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Wait until a tab has loaded its page
+ */
+async function waitForTabLoaded(tabId: number, timeoutMs: number): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+      reject(new Error('timed out'));
+    }, timeoutMs);
+    const done = () => {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+      resolve();
+    };
+    const onUpdated = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') {
+        done();
+      }
+    };
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    chrome.tabs.get(tabId).then(tab => {
+      if (tab.status === 'complete') {
+        done();
+      }
+    }, reject);
+  });
+}
+
+/**
+ * Read a text file on disk. The service worker can not fetch file URLs, the file is opened in a background tab
+ * and its text is read from the page, which needs the access to file URLs the user allowed for the extension.
+ */
+async function readFile(path: string): Promise<string> {
+  const filePath = encodeURI(path.replace(/\\/g, '/')).replace(/#/g, '%23').replace(/\?/g, '%3F');
+  const url = `file://${filePath.startsWith('/') ? '' : '/'}${filePath}`;
+  const tab = await chrome.tabs.create({ url, active: false });
+  if (tab.id === undefined) {
+    throw new Error('the file could not be opened');
+  }
+  try {
+    await waitForTabLoaded(tab.id, FILE_LOAD_TIMEOUT);
+    const results = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: function () {
+        // text files are shown in a pre element
+        const pre = document.querySelector('pre');
+        return pre ? pre.textContent : null;
+      },
+    });
+    const text = results[0]?.result;
+    if (typeof text !== 'string') {
+      throw new Error('the file is not shown as text');
+    }
+    return text;
+  } finally {
+    await chrome.tabs.remove(tab.id).catch(() => {});
+  }
+}
+
+/**
+ * Read a blob a page downloaded, in a tab of the origin that created the blob
+ */
+async function readBlob(url: string, tabs: chrome.tabs.Tab[]): Promise<string> {
+  const { origin } = new URL(url);
+  const tab = tabs.find(
+    tab => tab.id !== undefined && tab.url?.startsWith('http') && new URL(tab.url).origin === origin,
+  );
+  if (tab?.id === undefined) {
+    throw new Error(`no tab of ${origin} is open`);
+  }
+  const results = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: async function (blobUrl: string) {
+      const response = await fetch(blobUrl);
+      return await response.text();
+    },
+    args: [url],
+  });
+  const text = results[0]?.result;
+  if (typeof text !== 'string') {
+    throw new Error('the blob was released by the page');
+  }
+  return text;
+}
+
+/**
+ * Observe the downloads the pages of a task start while it runs, e.g. after the navigator clicked a download link.
+ * Downloads of the extension itself (saved and uploaded files), of the user and of other tasks are ignored.
+ */
+export class DownloadMonitor {
+  private _downloads: Map<number, BrowserDownload> = new Map();
+  private _events: DownloadEvent[] = [];
+  private _started = false;
+  private readonly _queryTaskTabs: () => Promise<chrome.tabs.Tab[]>;
+
+  /**
+   * @param queryTaskTabs - Get the tabs of the task, the downloads they start are observed
+   */
+  constructor(queryTaskTabs: () => Promise<chrome.tabs.Tab[]>) {
+    this._queryTaskTabs = queryTaskTabs;
+  }
+
+  private readonly _onCreated = async (item: chrome.downloads.DownloadItem) => {
+    if (item.byExtensionId === chrome.runtime.id) {
+      return;
+    }
+    if (!isStartedByTabs(item, await this._queryTaskTabs())) {
+      logger.info('download not started by the task, ignored', item.id, item.url);
+      return;
+    }
+    // the download may have changed while the tabs were queried, its changes were not observed yet
+    const [latest] = await chrome.downloads.search({ id: item.id });
+    const download = toBrowserDownload(latest ?? item);
+    this._downloads.set(download.id, download);
+    this._events.push({ type: DownloadEventEnum.Started, download });
+    if (download.state === DownloadStateEnum.Complete) {
+      this._events.push({ type: DownloadEventEnum.Completed, download });
+    } else if (download.state === DownloadStateEnum.Interrupted) {
+      this._events.push({ type: DownloadEventEnum.Failed, download });
+    }
+    logger.info('download started', download.id, download.url);
+  };
+
+  private readonly _onChanged = async (delta: chrome.downloads.DownloadDelta) => {
+    if (!this._downloads.has(delta.id) || (!delta.state && !delta.filename)) {
+      return;
+    }
+    const [item] = await chrome.downloads.search({ id: delta.id });
+    if (!item) {
+      return;
+    }
+    const download = toBrowserDownload(item);
+    this._downloads.set(download.id, download);
+    if (delta.state?.current === DownloadStateEnum.Complete) {
+      this._events.push({ type: DownloadEventEnum.Completed, download });
+    } else if (delta.state?.current === DownloadStateEnum.Interrupted) {
+      this._events.push({ type: DownloadEventEnum.Failed, download });
+    }
+    logger.info('download changed', download.id, download.state);
+  };
+
+  start(): void {
+    if (this._started) {
+      return;
+    }
+    chrome.downloads.onCreated.addListener(this._onCreated);
+    chrome.downloads.onChanged.addListener(this._onChanged);
+    this._started = true;
+  }
+
+  stop(): void {
+    if (!this._started) {
+      return;
+    }
+    chrome.downloads.onCreated.removeListener(this._onCreated);
+    chrome.downloads.onChanged.removeListener(this._onChanged);
+    this._started = false;
+  }
+
+  /**
+   * Get the download events since the last call, oldest first
+   */
+  takeEvents(): DownloadEvent[] {
+    const events = this._events;
+    this._events = [];
+    return events;
+  }
+
+  getDownloads(): BrowserDownload[] {
+    return Array.from(this._downloads.values());
+  }
+
+  /**
+   * Read the content of a completed text download (CSV, JSON or TXT)
+   * @param name - The file name of the download, the latest download with this name is read
+   * @returns The text content of the file
+   */
+  async readDownload(name: string): Promise<string> {
+    const download = this.getDownloads()
+      .reverse()
+      .find(item => item.name === name.trim());
+    if (!download) {
+      const names = this.getDownloads().map(item => item.name);
+      throw new Error(`No download named ${name}, downloads: ${names.join(', ') || 'none'}`);
+    }
+    if (download.state !== DownloadStateEnum.Complete) {
+      throw new Error(`Download ${download.name} is ${download.state.replace('_', ' ')}`);
+    }
+    const extension = download.name.split('.').pop()?.toLowerCase() ?? '';
+    if (!TEXT_FILE_EXTENSIONS.includes(extension)) {
+      throw new Error(`Download ${download.name} is not a ${TEXT_FILE_EXTENSIONS.join(', ')} file`);
+    }
+    if (download.size > MAX_READ_SIZE) {
+      throw new Error(`Download ${download.name} is larger than ${MAX_READ_SIZE / 1024} KB`);
+    }
+
+    // the file on disk is read when the user allowed access to file URLs, downloads made from data or blob urls
+    // can be read from their url. The url of other downloads is not downloaded again, a page may return other
+    // content for it, or none without the user's session.
+    try {
+      if (download.path && (await chrome.extension.isAllowedFileSchemeAccess())) {
+        const [item] = await chrome.downloads.search({ id: download.id });
+        if (item?.exists === false) {
+          throw new Error('the file was moved or deleted');
+        }
+        return await readFile(download.path);
+      }
+      if (download.url.startsWith('data:')) {
+        return await (await fetch(download.url)).text();
+      }
+      if (download.url.startsWith('blob:')) {
+        return await readBlob(download.url, await this._queryTaskTabs());
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warning('failed to read download', download.id, reason);
+      throw new Error(`Failed to read download ${download.name}: ${reason}`);
+    }
+    throw new Error(
+      `Download ${download.name} can not be read, allow access to file URLs for the extension to read it from disk`,
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import type { DOMElementNode } from '../dom/views';
+
+// Same colors as the highlights drawn into the page by buildDomTree.js
+const MARK_COLORS = [
+  '#FF0000',
+  '#00FF00',
+  '#0000FF',
+  '#FFA500',
+  '#800080',
+  '#008080',
+  '#FF69B4',
+  '#4B0082',
+  '#FF4500',
+  '#2E8B57',
+  '#DC143C',
+  '#4682B4',
+];
+
+/**
+ * Draw the bounding box and the index of the interactive elements onto a screenshot (set-of-marks).
+ * The marks are drawn in an OffscreenCanvas, the page itself is left untouched.
+ * @param screenshot - The base64 encoded JPEG screenshot of the visible part of the page
+ * @param selectorMap - The interactive elements by their highlight index
+ * @param focusElement - The only element to mark, -1 for all elements
+ * @returns The base64 encoded JPEG screenshot with the marks
+ */
+export async function drawElementMarks(
+  screenshot: string,
+  selectorMap: Map<number, DOMElementNode>,
+  focusElement = -1,
+): Promise<string> {
+  const image = await (await fetch(`data:image/jpeg;base64,${screenshot}`)).blob();
+  const bitmap = await createImageBitmap(image);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get the 2d context of the canvas');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  // coordinates are in CSS pixels, the screenshot is in device pixels
+  const viewportWidth = selectorMap.values().next().value?.viewportInfo?.width;
+  const scale = viewportWidth ? canvas.width / viewportWidth : 1;
+  const fontSize = Math.round(12 * scale);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textBaseline = 'top';
+
+  for (const [index, node] of selectorMap) {
+    if (focusElement >= 0 && index !== focusElement) {
+      continue;
+    }
+    const coordinates = node.viewportCoordinates;
+    if (!coordinates || coordinates.width === 0 || coordinates.height === 0) {
+      continue;
+    }
+    const x = coordinates.topLeft.x * scale;
+    const y = coordinates.topLeft.y * scale;
+    const width = coordinates.width * scale;
+    const height = coordinates.height * scale;
+    // skip the elements of the expanded viewport that are not on the screenshot
+    if (x + width < 0 || y + height < 0 || x > canvas.width || y > canvas.height) {
+      continue;
+    }
+
+    const color = MARK_COLORS[index % MARK_COLORS.length];
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2 * scale;
+    ctx.strokeRect(x, y, width, height);
+
+    // label in the top right corner of the box, above the box if the box is too small
+    const label = String(index);
+    const labelWidth = ctx.measureText(label).width + 8 * scale;
+    const labelHeight = fontSize + 4 * scale;
+    const labelX = Math.max(0, x + width - labelWidth);
+    const labelY = height < labelHeight * 2 ? Math.max(0, y - labelHeight) : y;
+    ctx.fillStyle = color;
+    ctx.fillRect(labelX, labelY, labelWidth, labelHeight);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(label, labelX + 4 * scale, labelY + 2 * scale);
+  }
+
+  const marked = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+  return toBase64(new Uint8Array(await marked.arrayBuffer()));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,115 @@
+import type { Page as PuppeteerPage } from 'puppeteer-core/lib/esm/puppeteer/api/Page.js';
+import type { HTTPResponse } from 'puppeteer-core/lib/esm/puppeteer/api/HTTPResponse.js';
+import { createLogger } from '@src/background/log';
+
+const logger = createLogger('NetworkCapture');
+
+// Responses kept per page, the oldest are dropped first
+const MAX_CAPTURED_RESPONSES = 100;
+// Larger bodies are not kept, in bytes
+const MAX_CAPTURED_BODY_SIZE = 512 * 1024;
+// Only the responses of these requests are data the pages load, documents and assets are skipped
+const CAPTURED_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+// Bodies of these content types are kept
+const CAPTURED_CONTENT_TYPES = ['json', 'text/', 'xml', 'javascript'];
+
+export interface CapturedResponse {
+  url: string;
+  method: string;
+  status: number;
+  contentType: string;
+  body: string;
+  capturedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface NetworkResponseFilter {
+  // Glob pattern of the url, e.g. */api/products*, a pattern without * matches urls containing it
+  urlPattern?: string;
+  // Part of the content type, e.g. json
+  contentType?: string;
+}
+
+/**
+ * Check if a url matches a glob pattern, a pattern without * matches urls containing it
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const normalized = pattern.trim();
+  if (!normalized) {
+    return true;
+  }
+  if (!normalized.includes('*')) {
+    return url.includes(normalized);
+  }
+  const escaped = normalized.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`).test(url);
+}
+
+/**
+ * Keep the bodies of the data responses (XHR and fetch) a page receives,
+ * the navigator reads them instead of scraping the rendered data from the DOM
+ */
+export class NetworkCapture {
+  private _responses: CapturedResponse[] = [];
+  private _page: PuppeteerPage | null = null;
+
+  private readonly _onResponse = async (response: HTTPResponse) => {
+    const request = response.request();
+    if (!CAPTURED_RESOURCE_TYPES.has(request.resourceType())) {
+      return;
+    }
+    const contentType = response.headers()['content-type']?.toLowerCase() ?? '';
+    if (!CAPTURED_CONTENT_TYPES.some(type => contentType.includes(type))) {
+      return;
+    }
+    const contentLength = Number(response.headers()['content-length'] ?? 0);
+    if (contentLength > MAX_CAPTURED_BODY_SIZE) {
+      return;
+    }
+
+    try {
+      const body = await response.text();
+      if (body.length > MAX_CAPTURED_BODY_SIZE) {
+        return;
+      }
+      this._responses.push({
+        url: response.url(),
+        method: request.method(),
+        status: response.status(),
+        contentType,
+        body,
+        capturedAt: Date.now(),
+      });
+      if (this._responses.length > MAX_CAPTURED_RESPONSES) {
+        this._responses.shift();
+      }
+    } catch (error) {
+      // the body is gone when the page navigated away, or the response was a redirect
+      logger.debug('Failed to read response body', response.url(), error);
+    }
+  };
+
+  attach(page: PuppeteerPage): void {
+    this.detach();
+    page.on('response', this._onResponse);
+    this._page = page;
+  }
+
+  detach(): void {
+    this._page?.off('response', this._onResponse);
+    this._page = null;
+  }
+
+  /**
+   * Get the captured responses matching the filter, newest first
+   */
+  getResponses(filter: NetworkResponseFilter = {}): CapturedResponse[] {
+    const contentType = filter.contentType?.trim().toLowerCase() ?? '';
+    return this._responses
+      .filter(
+        response =>
+          matchesUrlPattern(response.url, filter.urlPattern ?? '') &&
+          (!contentType || response.contentType.includes(contentType)),
+      )
+      .reverse();
+  }
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Page from './page';
+
+vi.mock('webextension-polyfill', () => ({}));
+
+interface FakeMutation {
+  type: 'attributes' | 'childList' | 'characterData';
+  attributeName?: string;
+}
+
+// Mutation observer of a page that changes an element every 50 ms
+class FakeMutationObserver {
+  static mutation: FakeMutation;
+  private _interval: ReturnType<typeof setInterval> | undefined;
+  private readonly _callback: (records: FakeMutation[]) => void;
+
+  constructor(callback: (records: FakeMutation[]) => void) {
+    this._callback = callback;
+  }
+
+  observe(): void {
+    this._interval = setInterval(() => this._callback([FakeMutationObserver.mutation]), 50);
+  }
+
+  disconnect(): void {
+    clearInterval(this._interval);
+  }
+}
+
+// Puppeteer page that runs the evaluated functions in the test
+const puppeteerPage = {
+  evaluate: async <Args extends unknown[], Result>(fn: (...args: Args) => Result, ...args: Args) => fn(...args),
+};
+
+function waitForDomQuiescence(page: Page): Promise<void> {
+  return (page as unknown as { _waitForDomQuiescence(): Promise<void> })._waitForDomQuiescence();
+}
+
+describe('Page DOM quiescence', () => {
+  let page: Page;
+
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('document', {});
+    vi.stubGlobal('MutationObserver', FakeMutationObserver);
+    page = new Page(1, 'https://example.com/', 'Example', { domQuiescenceTime: 0.2, maximumWaitPageLoadTime: 2 });
+    (page as unknown as { _puppeteerPage: typeof puppeteerPage })._puppeteerPage = puppeteerPage;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('settles on a page that animates the style of an element all the time', async () => {
+    FakeMutationObserver.mutation = { type: 'attributes', attributeName: 'style' };
+    const start = Date.now();
+    await waitForDomQuiescence(page);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('waits while the page renders new content', async () => {
+    FakeMutationObserver.mutation = { type: 'childList' };
+    const start = Date.now();
+    await waitForDomQuiescence(page);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(1900);
+  });
+});
@@ -11,6 +11,7 @@ import type { Browser } from 'puppeteer-core/lib/esm/puppeteer/api/Browser.js';
 import type { Page as PuppeteerPage } from 'puppeteer-core/lib/esm/puppeteer/api/Page.js';
 import type { ElementHandle } from 'puppeteer-core/lib/esm/puppeteer/api/ElementHandle.js';
 import type { Frame } from 'puppeteer-core/lib/esm/puppeteer/api/Frame.js';
+import type { Dialog } from 'puppeteer-core/lib/esm/puppeteer/api/Dialog.js';
 import {
   getClickableElements as _getClickableElements,
   removeHighlights as _removeHighlights,
@@ -19,12 +20,29 @@ import {
   getReadabilityContent as _getReadabilityContent,
   type ReadabilityResult,
 } from '../dom/service';
+import { getAccessibilityElements as _getAccessibilityElements } from '../dom/accessibility';
+import { DeviceEmulationEnum, DialogPolicyEnum, HighlightModeEnum, PageStateProviderEnum } from '@extension/storage';
+import { drawElementMarks } from './marks';
+import { type CapturedResponse, matchesUrlPattern, NetworkCapture, type NetworkResponseFilter } from './network';
+import { getMobileDevice } from './devices';
+import { buildStealthScript, hasStealthEmulation, isStealthEnabledFor, setStealthEmulation } from './stealth';
 import { DOMElementNode, type DOMState } from '../dom/views';
-import { type BrowserContextConfig, DEFAULT_BROWSER_CONTEXT_CONFIG, type PageState } from './types';
+import {
+  type BrowserContextConfig,
+  DEFAULT_BROWSER_CONTEXT_CONFIG,
+  type PageDialog,
+  type PageState,
+  type WaitCondition,
+} from './types';
 import { createLogger } from '@src/background/log';
 
 const logger = createLogger('Page');
 
+// Interval of checking the conditions of the wait_for action, in milliseconds
+const WAIT_POLLING_INTERVAL = 250;
+// Time the element count must not change to be stable, in milliseconds
+const ELEMENT_COUNT_STABLE_TIME = 1000;
+
 declare global {
   interface Window {
     turn2Markdown: (selector?: string) => string;
@@ -48,6 +66,7 @@ export function build_initial_state(tabId?: number, url?: string, title?: string
     screenshot: null,
     pixelsAbove: 0,
     pixelsBelow: 0,
+    dialog: null,
   };
 }
 
@@ -58,6 +77,15 @@ export default class Page {
   private _config: BrowserContextConfig;
   private _state: PageState;
   private _validWebPage = false;
+  // dialog waiting for the handle_dialog action, the page is blocked until it is handled
+  private _openDialog: Dialog | null = null;
+  // dialog to report in the next state
+  private _dialogInfo: PageDialog | null = null;
+  private _dialogListeners = new Set<(dialog: PageDialog) => void>();
+  // data responses of the page, only when network capture is enabled
+  private _networkCapture: NetworkCapture | null = null;
+  // the user agent, locale and timezone overrides of the stealth profile are set
+  private _stealthEmulated = false;
 
   constructor(tabId: number, url: string, title: string, config: Partial<BrowserContextConfig> = {}) {
     this._tabId = tabId;
@@ -71,6 +99,10 @@ export default class Page {
     return this._tabId;
   }
 
+  updateConfig(config: Partial<BrowserContextConfig>): void {
+    this._config = { ...this._config, ...config };
+  }
+
   get validWebPage(): boolean {
     return this._validWebPage;
   }
@@ -79,6 +111,10 @@ export default class Page {
     return this._validWebPage && this._puppeteerPage !== null;
   }
 
+  get hasOpenDialog(): boolean {
+    return this._openDialog !== null;
+  }
+
   async attachPuppeteer(): Promise<boolean> {
     if (!this._validWebPage) {
       return false;
@@ -98,53 +134,63 @@ export default class Page {
 
     const [page] = await browser.pages();
     this._puppeteerPage = page;
+    page.on('dialog', dialog => this._onDialog(dialog));
+    if (this._config.captureNetworkResponses) {
+      this._networkCapture = new NetworkCapture();
+      this._networkCapture.attach(page);
+    }
 
-    // Add anti-detection scripts
-    await this._addAntiDetectionScripts();
+    await this._applyStealthProfile(page);
+    await this._emulateDevice(page);
 
     return true;
   }
 
-  private async _addAntiDetectionScripts(): Promise<void> {
-    if (!this._puppeteerPage) {
+  private async _emulateDevice(page: PuppeteerPage): Promise<void> {
+    const { device, browserWindowSize } = this._config;
+    if (device === DeviceEmulationEnum.None) {
       return;
     }
+    const mobileDevice = getMobileDevice(device);
+    if (mobileDevice) {
+      await page.emulate(mobileDevice);
+    } else {
+      await page.setViewport(browserWindowSize);
+    }
+    logger.info('emulating device', this._tabId, device);
+  }
 
-    await this._puppeteerPage.evaluateOnNewDocument(`
-      // Webdriver property
-      Object.defineProperty(navigator, 'webdriver', {
-        get: () => undefined
-      });
-
-      // Languages
-      // Object.defineProperty(navigator, 'languages', {
-      //   get: () => ['en-US']
-      // });
-
-      // Plugins
-      // Object.defineProperty(navigator, 'plugins', {
-      //   get: () => [1, 2, 3, 4, 5]
-      // });
-
-      // Chrome runtime
-      window.chrome = { runtime: {} };
-
-      // Permissions
-      const originalQuery = window.navigator.permissions.query;
-      window.navigator.permissions.query = (parameters) => (
-        parameters.name === 'notifications' ?
-          Promise.resolve({ state: Notification.permission }) :
-          originalQuery(parameters)
-      );
+  private async _applyStealthProfile(page: PuppeteerPage): Promise<void> {
+    const script = buildStealthScript(this._config.stealth);
+    if (script) {
+      await page.evaluateOnNewDocument(script);
+    }
+    // the overrides are set per tab, they follow the page to and from the disabled domains
+    await this._updateStealthEmulation(page.url());
+    page.on('framenavigated', frame => {
+      if (frame === page.mainFrame()) {
+        void this._updateStealthEmulation(frame.url());
+      }
+    });
+  }
 
-      // Shadow DOM
-      (function () {
-        const originalAttachShadow = Element.prototype.attachShadow;
-        Element.prototype.attachShadow = function attachShadow(options) {
-          return originalAttachShadow.call(this, { ...options, mode: "open" });
-        };
-      })();
-    `);
+  private async _updateStealthEmulation(url: string): Promise<void> {
+    const { stealth } = this._config;
+    const emulate = hasStealthEmulation(stealth) && isStealthEnabledFor(url, stealth);
+    if (emulate === this._stealthEmulated) {
+      return;
+    }
+    try {
+      await setStealthEmulation(this._tabId, emulate ? stealth : null);
+      this._stealthEmulated = emulate;
+      // the stealth overrides replace the user agent of the emulated device
+      const mobileDevice = getMobileDevice(this._config.device);
+      if (mobileDevice && this._puppeteerPage) {
+        await this._puppeteerPage.setUserAgent(mobileDevice.userAgent);
+      }
+    } catch (error) {
+      logger.warning('Failed to update stealth emulation:', error);
+    }
   }
 
   async detachPuppeteer(): Promise<void> {
@@ -152,13 +198,95 @@ export default class Page {
       await this._browser.disconnect();
       this._browser = null;
       this._puppeteerPage = null;
+      this._openDialog = null;
+      this._dialogInfo = null;
+      this._networkCapture?.detach();
+      this._networkCapture = null;
+      this._stealthEmulated = false;
       // reset the state
       this._state = build_initial_state(this._tabId);
     }
   }
 
+  private async _onDialog(dialog: Dialog): Promise<void> {
+    const info: PageDialog = {
+      type: dialog.type(),
+      message: dialog.message(),
+      defaultValue: dialog.defaultValue(),
+      handled: null,
+    };
+    logger.info('dialog opened', info.type, info.message);
+
+    try {
+      if (this._config.dialogPolicy === DialogPolicyEnum.Accept) {
+        await dialog.accept(info.defaultValue);
+        info.handled = 'accepted';
+      } else if (this._config.dialogPolicy === DialogPolicyEnum.Dismiss) {
+        await dialog.dismiss();
+        info.handled = 'dismissed';
+      } else {
+        this._openDialog = dialog;
+      }
+    } catch (error) {
+      // the dialog was closed in the meantime, e.g. by the page navigating away
+      logger.warning('Failed to handle dialog:', error);
+      return;
+    }
+    this._dialogInfo = info;
+    if (!info.handled) {
+      for (const listener of this._dialogListeners) {
+        listener(info);
+      }
+    }
+  }
+
+  /**
+   * Listen for dialogs that stay open until the handle_dialog action, see DialogPolicyEnum.Navigator
+   * @returns A function to remove the listener
+   */
+  onDialog(listener: (dialog: PageDialog) => void): () => void {
+    this._dialogListeners.add(listener);
+    return () => {
+      this._dialogListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Accept or dismiss the open dialog
+   * @param accept - Whether to accept the dialog
+   * @param text - Text to enter into a prompt dialog when accepting it
+   */
+  async handleDialog(accept: boolean, text?: string): Promise<PageDialog> {
+    const dialog = this._openDialog;
+    const info = this._dialogInfo;
+    if (!dialog || !info) {
+      throw new Error('No dialog is open');
+    }
+    this._openDialog = null;
+    this._dialogInfo = null;
+
+    if (accept) {
+      await dialog.accept(text ?? info.defaultValue);
+    } else {
+      await dialog.dismiss();
+    }
+    return info;
+  }
+
+  /**
+   * Get the data responses the page received, newest first
+   * @param filter - Filter by url pattern and content type
+   */
+  getNetworkResponses(filter: NetworkResponseFilter = {}): CapturedResponse[] {
+    if (!this._networkCapture) {
+      throw new Error('Network capture is not enabled in the settings');
+    }
+    return this._networkCapture.getResponses(filter);
+  }
+
   async removeHighlight(): Promise<void> {
-    if (this._config.highlightElements && this._validWebPage) {
+    // the highlights can not be removed while a dialog blocks the page
+    if (this._config.highlightElements && this._validWebPage && !this._openDialog) {
       await _removeHighlights(this._tabId);
     }
   }
@@ -167,12 +295,21 @@ export default class Page {
     if (!this._validWebPage) {
       return null;
     }
-    return _getClickableElements(
-      this._tabId,
-      this._config.highlightElements,
-      focusElement,
-      this._config.viewportExpansion,
-    );
+    // in screenshot mode the marks are drawn onto the screenshot instead of into the page
+    const highlightInPage = this._config.highlightElements && this._config.highlightMode === HighlightModeEnum.Page;
+    if (this._config.pageStateProvider === PageStateProviderEnum.Accessibility && this._puppeteerPage) {
+      try {
+        return await _getAccessibilityElements(
+          this._puppeteerPage,
+          highlightInPage,
+          focusElement,
+          this._config.viewportExpansion,
+        );
+      } catch (error) {
+        logger.warning('Failed to get elements from the accessibility tree, falling back to the DOM tree:', error);
+      }
+    }
+    return _getClickableElements(this._tabId, highlightInPage, focusElement, this._config.viewportExpansion);
   }
 
   // Get scroll position information for the current page.
@@ -226,6 +363,12 @@ export default class Page {
   }
 
   async _updateState(useVision = true, focusElement = -1): Promise<PageState> {
+    if (this._openDialog) {
+      // scripts can not run in the page until the dialog is handled, keep the last known state
+      this._state.dialog = this._dialogInfo;
+      return this._state;
+    }
+
     try {
       // Test if page is still accessible
       // @ts-expect-error - puppeteerPage is not null, already checked before calling this function
@@ -236,6 +379,7 @@ export default class Page {
         const pages = await this._browser.pages();
         if (pages.length > 0) {
           this._puppeteerPage = pages[0];
+          this._networkCapture?.attach(pages[0]);
         } else {
           throw new Error('Browser closed: no valid pages available');
         }
@@ -266,7 +410,14 @@ export default class Page {
       }
 
       // Take screenshot if needed
-      const screenshot = useVision ? await this.takeScreenshot() : null;
+      let screenshot = useVision ? await this.takeScreenshot() : null;
+      if (screenshot && this._config.highlightElements && this._config.highlightMode === HighlightModeEnum.Screenshot) {
+        try {
+          screenshot = await drawElementMarks(screenshot, content.selectorMap, focusElement);
+        } catch (error) {
+          logger.warning('Failed to draw the element marks onto the screenshot:', error);
+        }
+      }
       const [pixelsAbove, pixelsBelow] = await this.getScrollInfo();
 
       // update the state
@@ -277,6 +428,9 @@ export default class Page {
       this._state.screenshot = screenshot;
       this._state.pixelsAbove = pixelsAbove;
       this._state.pixelsBelow = pixelsBelow;
+      // a dialog handled by the dialog policy is reported once
+      this._state.dialog = this._dialogInfo;
+      this._dialogInfo = null;
       return this._state;
     } catch (error) {
       logger.error('Failed to update state:', error);
@@ -336,6 +490,24 @@ export default class Page {
     return this._state.url;
   }
 
+  /**
+   * Get the url of a frame of the page, e.g. the cross-origin iframe an element lives in
+   * @param frameId - The id of the frame (as used by chrome.scripting), 0 for the top frame
+   * @returns The url, or null if the frame is gone or its url can not be determined
+   */
+  async frameUrl(frameId: number): Promise<string | null> {
+    if (frameId === 0) {
+      return this.url() || null;
+    }
+    try {
+      const frame = await chrome.webNavigation.getFrame({ tabId: this._tabId, frameId });
+      return frame?.url || null;
+    } catch (error) {
+      logger.warning('Failed to get frame url', frameId, error);
+      return null;
+    }
+  }
+
   async title(): Promise<string> {
     if (this._puppeteerPage) {
       return await this._puppeteerPage.title();
@@ -470,6 +642,93 @@ export default class Page {
     }
   }
 
+  /**
+   * Click at a position of the viewport
+   * @param x - Horizontal position in CSS pixels from the left of the viewport
+   * @param y - Vertical position in CSS pixels from the top of the viewport
+   */
+  async clickCoordinates(x: number, y: number): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+    this._validateCoordinates(x, y);
+
+    await this._puppeteerPage.mouse.move(x, y);
+    await Promise.all([this._puppeteerPage.mouse.click(x, y), this.waitForPageAndFramesLoad()]);
+  }
+
+  /**
+   * Press the mouse at a position, move it to another position and release it there
+   */
+  async dragAndDrop(fromX: number, fromY: number, toX: number, toY: number): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+    this._validateCoordinates(fromX, fromY);
+    this._validateCoordinates(toX, toY);
+
+    const mouse = this._puppeteerPage.mouse;
+    await mouse.move(fromX, fromY);
+    await mouse.down();
+    try {
+      // move in steps so the page gets the intermediate dragover events
+      await mouse.move(toX, toY, { steps: 20 });
+    } finally {
+      await mouse.up();
+    }
+    await this.waitForPageAndFramesLoad();
+  }
+
+  /**
+   * Move the mouse over a position of the viewport, e.g. to open a hover menu
+   */
+  async hover(x: number, y: number): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+    this._validateCoordinates(x, y);
+
+    await this._puppeteerPage.mouse.move(x, y);
+  }
+
+  /**
+   * Describe the element at a position of the viewport by its text, aria-label, title and value.
+   * Elements in frames are described by their frame element.
+   * @returns The description, empty if there is no element at the position
+   */
+  async describeElementAt(x: number, y: number): Promise<string> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+    this._validateCoordinates(x, y);
+
+    return this._puppeteerPage.evaluate(
+      (x, y) => {
+        const point = document.elementFromPoint(x, y);
+        // describe the control the point is in, not the text node wrapper under it
+        const element =
+          point?.closest('a, button, input, select, textarea, label, summary, [role], [onclick], [tabindex]') ?? point;
+        if (!element) {
+          return '';
+        }
+        const text = element instanceof HTMLElement ? element.innerText.trim().slice(0, 200) : '';
+        const value = element instanceof HTMLInputElement ? element.value : '';
+        return [text, element.getAttribute('aria-label'), element.getAttribute('title'), value]
+          .filter(Boolean)
+          .join(' ');
+      },
+      x,
+      y,
+    );
+  }
+
+  private _validateCoordinates(x: number, y: number): void {
+    const { width, height } = this._puppeteerPage?.viewport() ?? this._config.browserWindowSize;
+    if (!Number.isFinite(x) || !Number.isFinite(y) || x < 0 || y < 0 || x >= width || y >= height) {
+      throw new Error(`Coordinates (${x}, ${y}) are outside of the viewport of ${width}x${height} pixels`);
+    }
+  }
+
   private _convertKey(key: string): KeyInput {
     const lowerKey = key.trim().toLowerCase();
     const keyMap: { [key: string]: string } = {
@@ -872,8 +1131,9 @@ export default class Page {
       const ariaLabel = targetElement.attributes['aria-label'];
       const tagName = targetElement.tagName || 'input';
 
+      // Run in the frame the element lives in
       const result = await chrome.scripting.executeScript({
-        target: { tabId: this._tabId },
+        target: { tabId: this._tabId, frameIds: [targetElement.frameId] },
         func: function (params: { id?: string; name?: string; ariaLabel?: string; tagName: string; text: string }) {
           let element: HTMLElement | null = null;
 
@@ -1092,10 +1352,12 @@ export default class Page {
       // biome-ignore lint/complexity/useLiteralKeys: <explanation>
       const ariaLabel = targetElement.attributes['aria-label'];
       const tagName = targetElement.tagName || '*';
-      const viewportCenter = targetElement.viewportCoordinates?.center;
+      // coordinates are relative to the top frame, elementFromPoint only works with them in the top frame
+      const viewportCenter = targetElement.frameId === 0 ? targetElement.viewportCoordinates?.center : undefined;
 
+      // Run in the frame the element lives in
       const result = await chrome.scripting.executeScript({
-        target: { tabId: this._tabId },
+        target: { tabId: this._tabId, frameIds: [targetElement.frameId] },
         func: function (params: {
           id?: string;
           name?: string;
@@ -1203,6 +1465,33 @@ export default class Page {
     return false;
   }
 
+  /**
+   * Set a file on the file input of an element, the element is the input itself or contains it
+   * @param elementNode - The file uploader element, see isFileUploader
+   * @param filePath - The absolute path of the file on disk
+   */
+  async uploadFile(elementNode: DOMElementNode, filePath: string): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+
+    const fileInput = elementNode.getFileUploadElement();
+    if (!fileInput) {
+      throw new Error(`Element with index ${elementNode.highlightIndex} has no file input`);
+    }
+    const handle = (await this.locateElement(fileInput)) as ElementHandle<HTMLInputElement> | null;
+    if (!handle) {
+      throw new Error(`File input of element with index ${elementNode.highlightIndex} not found on the page`);
+    }
+
+    try {
+      // sets the file with DOM.setFileInputFiles and fires the input and change events like a user would
+      await handle.uploadFile(filePath);
+    } finally {
+      await handle.dispose();
+    }
+  }
+
   async waitForPageLoadState(timeout?: number) {
     const timeoutValue = timeout || 8000;
     await this._puppeteerPage?.waitForNavigation({ timeout: timeoutValue });
@@ -1376,6 +1665,119 @@ export default class Page {
     console.debug(`Network stabilized for ${this._config.waitForNetworkIdlePageLoadTime} seconds`);
   }
 
+  /**
+   * Wait until the DOM of the page has not changed for domQuiescenceTime,
+   * or at most maximumWaitPageLoadTime
+   */
+  private async _waitForDomQuiescence(): Promise<void> {
+    if (!this._puppeteerPage || this._openDialog || this._config.domQuiescenceTime <= 0) {
+      return;
+    }
+    const quietTime = this._config.domQuiescenceTime * 1000;
+    const maxTime = this._config.maximumWaitPageLoadTime * 1000;
+    const settled = await this._puppeteerPage.evaluate(
+      (quietTime, maxTime) =>
+        new Promise<boolean>(resolve => {
+          let quietTimer = 0;
+          const finish = (result: boolean) => {
+            observer.disconnect();
+            clearTimeout(quietTimer);
+            clearTimeout(maxTimer);
+            resolve(result);
+          };
+          const observer = new MutationObserver(records => {
+            // animations change the style and class of elements all the time, they do not render new content
+            const rendered = records.some(
+              record =>
+                record.type !== 'attributes' || (record.attributeName !== 'style' && record.attributeName !== 'class'),
+            );
+            if (!rendered) {
+              return;
+            }
+            clearTimeout(quietTimer);
+            quietTimer = window.setTimeout(() => finish(true), quietTime);
+          });
+          observer.observe(document, { childList: true, subtree: true, attributes: true, characterData: true });
+          quietTimer = window.setTimeout(() => finish(true), quietTime);
+          const maxTimer = window.setTimeout(() => finish(false), maxTime);
+        }),
+      quietTime,
+      maxTime,
+    );
+    if (!settled) {
+      logger.info(`DOM still changing after ${this._config.maximumWaitPageLoadTime} seconds, continuing...`);
+    }
+  }
+
+  /**
+   * Wait for a condition on the page
+   * @param condition - text: the text appears on the page, selector: an element matching the CSS selector is visible,
+   *   url: the url matches the glob pattern, element_count_stable: the number of elements matching the CSS selector
+   *   (all elements by default) stopped changing
+   * @param value - The text, selector or url pattern of the condition
+   * @param timeout - The maximum time to wait in seconds
+   * @returns Whether the condition was met before the timeout
+   */
+  async waitFor(condition: WaitCondition, value: string, timeout: number): Promise<boolean> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+    const timeoutMs = timeout * 1000;
+
+    try {
+      switch (condition) {
+        case 'text':
+          await this._puppeteerPage.waitForFunction(
+            (text: string) => document.body?.innerText.includes(text) ?? false,
+            { timeout: timeoutMs, polling: WAIT_POLLING_INTERVAL },
+            value,
+          );
+          return true;
+        case 'selector':
+          await this._puppeteerPage.waitForSelector(value, { visible: true, timeout: timeoutMs });
+          return true;
+        case 'url':
+          return await this._pollUntil(() => matchesUrlPattern(this._puppeteerPage?.url() ?? '', value), timeoutMs);
+        case 'element_count_stable': {
+          let lastCount = -1;
+          let stableSince = Date.now();
+          return await this._pollUntil(async () => {
+            const count = await this._puppeteerPage!.evaluate(
+              (selector: string) => document.querySelectorAll(selector).length,
+              value || '*',
+            );
+            if (count !== lastCount) {
+              lastCount = count;
+              stableSince = Date.now();
+            }
+            return Date.now() - stableSince >= ELEMENT_COUNT_STABLE_TIME;
+          }, timeoutMs);
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async _pollUntil(check: () => boolean | Promise<boolean>, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      try {
+        if (await check()) {
+          return true;
+        }
+      } catch (error) {
+        // the page may be navigating, check again
+        logger.debug('wait condition check failed', error);
+      }
+      await new Promise(resolve => setTimeout(resolve, WAIT_POLLING_INTERVAL));
+    }
+    return false;
+  }
+
   async waitForPageAndFramesLoad(timeoutOverwrite?: number): Promise<void> {
     // Start timing
     const startTime = Date.now();
@@ -1387,6 +1789,13 @@ export default class Page {
       console.warn('Page load failed, continuing...');
     }
 
+    // Wait for the page to finish rendering, single page apps render after the network is idle
+    try {
+      await this._waitForDomQuiescence();
+    } catch (error) {
+      logger.warning('Failed to wait for the DOM to settle, continuing...', error);
+    }
+
     // Calculate remaining time to meet minimum wait time
     const elapsed = (Date.now() - startTime) / 1000; // Convert to seconds
     const minWaitTime = timeoutOverwrite || this._config.minimumWaitPageLoadTime;
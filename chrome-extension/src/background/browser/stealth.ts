@@ -0,0 +1,98 @@
+import { type StealthSettingsConfig, StealthPatchEnum } from '@extension/storage';
+import { domainPatternToRegExp, matchesDomainPattern } from './domains';
+
+// Script of each patch, run in the pages before their own scripts
+const PATCH_SCRIPTS: Record<StealthPatchEnum, (settings: StealthSettingsConfig) => string> = {
+  [StealthPatchEnum.Webdriver]: () => `
+    Object.defineProperty(navigator, 'webdriver', {
+      get: () => undefined
+    });`,
+  [StealthPatchEnum.ChromeRuntime]: () => `
+    window.chrome = { runtime: {} };`,
+  [StealthPatchEnum.Permissions]: () => `
+    const originalQuery = window.navigator.permissions.query;
+    window.navigator.permissions.query = (parameters) => (
+      parameters.name === 'notifications' ?
+        Promise.resolve({ state: Notification.permission }) :
+        originalQuery(parameters)
+    );`,
+  [StealthPatchEnum.Languages]: settings => `
+    Object.defineProperty(navigator, 'languages', {
+      get: () => ${JSON.stringify([settings.locale || 'en-US'])}
+    });`,
+  [StealthPatchEnum.Plugins]: () => `
+    Object.defineProperty(navigator, 'plugins', {
+      get: () => [1, 2, 3, 4, 5]
+    });`,
+  [StealthPatchEnum.OpenShadowRoots]: () => `
+    const originalAttachShadow = Element.prototype.attachShadow;
+    Element.prototype.attachShadow = function attachShadow(options) {
+      return originalAttachShadow.call(this, { ...options, mode: "open" });
+    };`,
+};
+
+/**
+ * Check if the stealth profile applies to the page at the url
+ */
+export function isStealthEnabledFor(url: string, settings: StealthSettingsConfig): boolean {
+  if (!settings.enabled) {
+    return false;
+  }
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return true;
+  }
+  return !settings.disabledDomains.some(pattern => matchesDomainPattern(hostname, pattern));
+}
+
+/**
+ * Build the script that applies the patches of the stealth profile to a page.
+ * The pages of the disabled domains are checked in the script itself, since the page may navigate to them later.
+ * @returns The script, or null when there is nothing to inject
+ */
+export function buildStealthScript(settings: StealthSettingsConfig): string | null {
+  if (!settings.enabled || settings.patches.length === 0) {
+    return null;
+  }
+  const disabledDomains = settings.disabledDomains
+    .map(pattern => domainPatternToRegExp(pattern)?.source)
+    .filter(source => source !== undefined);
+  const patches = settings.patches.map(patch => `(() => {${PATCH_SCRIPTS[patch](settings)}\n})();`);
+
+  return `(() => {
+    const disabledDomains = ${JSON.stringify(disabledDomains)};
+    const hostname = location.hostname.toLowerCase();
+    if (disabledDomains.some(source => new RegExp(source).test(hostname))) {
+      return;
+    }
+    ${patches.join('\n')}
+  })();`;
+}
+
+/**
+ * Set the user agent, locale and timezone overrides of the stealth profile for a tab, through the CDP Emulation domain.
+ * The debugger must be attached to the tab.
+ * @param tabId - The tab to emulate in
+ * @param settings - The stealth profile, null to clear the overrides
+ */
+export async function setStealthEmulation(tabId: number, settings: StealthSettingsConfig | null): Promise<void> {
+  const target = { tabId };
+  const { userAgent = '', locale = '', timezoneId = '' } = settings ?? {};
+
+  // an empty user agent clears the override, the accept language header needs a user agent
+  await chrome.debugger.sendCommand(target, 'Emulation.setUserAgentOverride', {
+    userAgent: userAgent || (locale ? navigator.userAgent : ''),
+    ...(locale ? { acceptLanguage: locale } : {}),
+  });
+  await chrome.debugger.sendCommand(target, 'Emulation.setLocaleOverride', locale ? { locale } : {});
+  await chrome.debugger.sendCommand(target, 'Emulation.setTimezoneOverride', { timezoneId });
+}
+
+/**
+ * Check if the stealth profile overrides the user agent, locale or timezone
+ */
+export function hasStealthEmulation(settings: StealthSettingsConfig): boolean {
+  return Boolean(settings.userAgent || settings.locale || settings.timezoneId);
+}
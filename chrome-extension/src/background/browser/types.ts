@@ -1,3 +1,12 @@
+import {
+  DEFAULT_STEALTH_SETTINGS,
+  DeviceEmulationEnum,
+  DialogPolicyEnum,
+  HighlightModeEnum,
+  PageStateProviderEnum,
+  type StealthSettingsConfig,
+  TabIsolationEnum,
+} from '@extension/storage';
 import type { DOMState } from '../dom/views';
 
 export interface BrowserContextWindowSize {
@@ -25,6 +34,13 @@ export interface BrowserContextConfig {
    */
   maximumWaitPageLoadTime: number;
 
+  /**
+   * Time without DOM changes after which the page is considered rendered, checked after the network is idle.
+   * Pages that keep changing are waited for at most maximumWaitPageLoadTime.
+   * @default 0.5
+   */
+  domQuiescenceTime: number;
+
   /**
    * Time to wait between multiple per step actions
    * @default 1.0
@@ -63,20 +79,100 @@ export interface BrowserContextConfig {
    * @default 'https://www.google.com'
    */
   homePageUrl: string;
+
+  /**
+   * Domain glob patterns the browser may visit, e.g. *.example.com. A pattern also matches its subdomains.
+   * If empty, all domains that are not denied are allowed.
+   * @default []
+   */
+  allowedDomains: string[];
+
+  /**
+   * Domain glob patterns the browser must not visit. Takes precedence over allowedDomains.
+   * @default []
+   */
+  deniedDomains: string[];
+
+  /**
+   * How the interactive elements of a page are found, from the DOM tree or from the accessibility tree
+   * @default PageStateProviderEnum.DomTree
+   */
+  pageStateProvider: PageStateProviderEnum;
+
+  /**
+   * Where the highlighted elements are marked with their indices, in the page or on the screenshots only
+   * @default HighlightModeEnum.Page
+   */
+  highlightMode: HighlightModeEnum;
+
+  /**
+   * How the native dialogs (alert, confirm, prompt, beforeunload) of the pages are handled
+   * @default DialogPolicyEnum.Navigator
+   */
+  dialogPolicy: DialogPolicyEnum;
+
+  /**
+   * Keep the bodies of the XHR and fetch responses of the pages, for the get_network_responses action
+   * @default false
+   */
+  captureNetworkResponses: boolean;
+
+  /**
+   * Where the tabs the browser works in are kept. In a tab group or a window of its own,
+   * the browser never switches to the tabs outside of it.
+   * @default TabIsolationEnum.None
+   */
+  tabIsolation: TabIsolationEnum;
+
+  /**
+   * Stealth profile of the pages: the injected patches, the domains it is off for,
+   * and the user agent, locale and timezone overrides. Applies to the pages attached after a change.
+   * @default DEFAULT_STEALTH_SETTINGS
+   */
+  stealth: StealthSettingsConfig;
+
+  /**
+   * Device the pages are emulated as (viewport, device pixel ratio, touch and user agent), applied when a page is attached.
+   * The desktop device uses browserWindowSize as the viewport. The user agent of a mobile device
+   * takes precedence over the one of the stealth profile.
+   * @default DeviceEmulationEnum.None
+   */
+  device: DeviceEmulationEnum;
 }
 
 export const DEFAULT_BROWSER_CONTEXT_CONFIG: BrowserContextConfig = {
   minimumWaitPageLoadTime: 0.5,
   waitForNetworkIdlePageLoadTime: 1.0,
   maximumWaitPageLoadTime: 5.0,
+  domQuiescenceTime: 0.5,
   waitBetweenActions: 1.0,
   browserWindowSize: { width: 1280, height: 1100 },
   highlightElements: true,
   viewportExpansion: 500,
   includeDynamicAttributes: true,
   homePageUrl: 'https://www.google.com',
+  allowedDomains: [],
+  deniedDomains: [],
+  pageStateProvider: PageStateProviderEnum.DomTree,
+  highlightMode: HighlightModeEnum.Page,
+  dialogPolicy: DialogPolicyEnum.Navigator,
+  captureNetworkResponses: false,
+  tabIsolation: TabIsolationEnum.None,
+  stealth: DEFAULT_STEALTH_SETTINGS,
+  device: DeviceEmulationEnum.None,
 };
 
+// Conditions of the wait_for action
+export type WaitCondition = 'text' | 'selector' | 'url' | 'element_count_stable';
+
+export interface PageDialog {
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+  message: string;
+  defaultValue: string; // Default text of a prompt dialog
+  // How the dialog policy handled the dialog, null while it is open
+  handled: 'accepted' | 'dismissed' | null;
+}
+
 export interface PageState extends DOMState {
   tabId: number;
   url: string;
@@ -84,12 +180,17 @@ export interface PageState extends DOMState {
   screenshot: string | null;
   pixelsAbove: number;
   pixelsBelow: number;
+  // The open dialog, or the last dialog the dialog policy handled since the previous state
+  dialog: PageDialog | null;
 }
 
 export interface TabInfo {
   id: number;
   url: string;
   title: string;
+  openedByAgent: boolean; // False for the user's own tabs
+  active: boolean; // The tab shown in its window
+  loading: boolean;
 }
 
 export interface BrowserState extends PageState {
@@ -0,0 +1,286 @@
+import type { Page as PuppeteerPage } from 'puppeteer-core/lib/esm/puppeteer/api/Page.js';
+import type { SerializedAXNode } from 'puppeteer-core/lib/esm/puppeteer/cdp/Accessibility.js';
+import { createLogger } from '@src/background/log';
+import type { Coordinates, CoordinateSet, ViewportInfo } from './history/view';
+import { offsetCoordinates } from './service';
+import { type DOMState, DOMElementNode, DOMTextNode } from './views';
+
+const logger = createLogger('AccessibilityService');
+
+// Roles of the accessibility nodes the agent can interact with
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'link',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'option',
+  'checkbox',
+  'radio',
+  'switch',
+  'slider',
+  'spinbutton',
+  'tab',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'treeitem',
+  'disclosuretriangle',
+]);
+
+// States of the accessibility nodes shown to the agent
+const AX_STATES = [
+  'checked',
+  'pressed',
+  'selected',
+  'expanded',
+  'disabled',
+  'required',
+  'readonly',
+  'focused',
+] as const;
+
+// The DOM element behind an accessibility node, in the same shape buildDomTree.js reports elements
+interface AXElementInfo {
+  tagName: string;
+  xpath: string;
+  attributes: Record<string, string>;
+  viewportCoordinates: CoordinateSet;
+  pageCoordinates: CoordinateSet;
+  viewportInfo: ViewportInfo;
+}
+
+/**
+ * Get the interactive elements of the page from the accessibility tree of the browser.
+ * The elements are real DOM elements with their xpath and attributes, so they are located and used
+ * by the actions like the elements found by buildDomTree.js, their roles, names and states are
+ * shown as their text.
+ * @param page - The puppeteer page attached to the tab
+ * @param highlightElements - Whether to highlight the interactive elements
+ * @param focusElement - The only element to highlight, -1 for all elements
+ * @param viewportExpansion - The viewport expansion to use, -1 to include all elements
+ * @returns A DOMState object containing the interactive elements of the page
+ */
+export async function getAccessibilityElements(
+  page: PuppeteerPage,
+  highlightElements = true,
+  focusElement = -1,
+  viewportExpansion = 0,
+): Promise<DOMState> {
+  const snapshot = await page.accessibility.snapshot({ interestingOnly: true, includeIframes: true });
+  if (!snapshot) {
+    throw new Error('Failed to get the accessibility tree');
+  }
+
+  const elementTree = new DOMElementNode({
+    tagName: 'body',
+    xpath: 'html/body',
+    attributes: {},
+    children: [],
+    isVisible: true,
+    parent: null,
+  });
+  const selectorMap = new Map<number, DOMElementNode>();
+  let highlightIndex = 0;
+
+  // offset: position of the frame of the node in the top frame, coordinates are moved to be relative to the top frame
+  const processNode = async (node: SerializedAXNode, parent: DOMElementNode, offset: Coordinates): Promise<void> => {
+    let container = parent;
+    let childOffset = offset;
+
+    if (node.role === 'Iframe') {
+      // the iframe element is kept in the tree, the elements inside are located through it
+      const info = await readElement(node, null, false, -1);
+      if (info) {
+        const iframeNode = createElementNode(info, offset, parent);
+        parent.children.push(iframeNode);
+        container = iframeNode;
+        childOffset = iframeNode.viewportCoordinates?.topLeft ?? offset;
+      }
+    } else if (INTERACTIVE_ROLES.has(node.role)) {
+      const doHighlight = highlightElements && (focusElement < 0 || focusElement === highlightIndex);
+      const info = await readElement(node, highlightIndex, doHighlight, viewportExpansion);
+      if (info) {
+        const elementNode = createElementNode(info, offset, parent, highlightIndex);
+        elementNode.children.push(new DOMTextNode(describeNode(node), true, elementNode));
+        parent.children.push(elementNode);
+        selectorMap.set(highlightIndex, elementNode);
+        highlightIndex++;
+        container = elementNode;
+      }
+    } else if (node.name && !node.children?.length) {
+      parent.children.push(new DOMTextNode(node.name, true, parent));
+    }
+
+    for (const child of node.children ?? []) {
+      await processNode(child, container, childOffset);
+    }
+  };
+
+  await processNode(snapshot, elementTree, { x: 0, y: 0 });
+  return { elementTree, selectorMap };
+}
+
+function createElementNode(
+  info: AXElementInfo,
+  offset: Coordinates,
+  parent: DOMElementNode,
+  highlightIndex?: number,
+): DOMElementNode {
+  return new DOMElementNode({
+    tagName: info.tagName,
+    xpath: info.xpath,
+    attributes: info.attributes,
+    children: [],
+    isVisible: true,
+    isInteractive: highlightIndex !== undefined,
+    isTopElement: true,
+    highlightIndex,
+    viewportCoordinates: offsetCoordinates(info.viewportCoordinates, offset),
+    pageCoordinates: offsetCoordinates(info.pageCoordinates, offset),
+    viewportInfo: info.viewportInfo,
+    parent,
+  });
+}
+
+/**
+ * Describe the role, name, value and states of an accessibility node, e.g. 'Subscribe (checkbox, checked)'
+ */
+function describeNode(node: SerializedAXNode): string {
+  const details: string[] = [node.role];
+  if (node.value !== undefined && node.value !== '') {
+    details.push(`value: ${node.value}`);
+  }
+  for (const state of AX_STATES) {
+    const value = node[state];
+    if (value === true) {
+      details.push(state);
+    } else if (value === 'mixed') {
+      details.push(`${state}: mixed`);
+    } else if (value === false && (state === 'checked' || state === 'expanded')) {
+      details.push(state === 'checked' ? 'not checked' : 'collapsed');
+    }
+  }
+  return `${node.name ?? ''} (${details.join(', ')})`.trim();
+}
+
+/**
+ * Read the DOM element behind an accessibility node and highlight it
+ * @param node - The accessibility node
+ * @param index - The highlight index of the element, null if it is not interactive
+ * @param doHighlight - Whether to draw the highlight of the element
+ * @param viewportExpansion - The viewport expansion, -1 to accept elements anywhere on the page
+ * @returns The element, or null if it is hidden, outside of the expanded viewport or gone
+ */
+async function readElement(
+  node: SerializedAXNode,
+  index: number | null,
+  doHighlight: boolean,
+  viewportExpansion: number,
+): Promise<AXElementInfo | null> {
+  const handle = await node.elementHandle().catch(() => null);
+  if (!handle) {
+    return null;
+  }
+
+  try {
+    return await handle.evaluate(
+      (target, args) => {
+        if (!(target instanceof Element)) {
+          return null;
+        }
+        const rect = target.getBoundingClientRect();
+        const style = window.getComputedStyle(target);
+        if (rect.width === 0 || rect.height === 0 || style.visibility === 'hidden' || style.display === 'none') {
+          return null;
+        }
+        if (
+          args.viewportExpansion !== -1 &&
+          (rect.bottom < -args.viewportExpansion ||
+            rect.top > window.innerHeight + args.viewportExpansion ||
+            rect.right < -args.viewportExpansion ||
+            rect.left > window.innerWidth + args.viewportExpansion)
+        ) {
+          return null;
+        }
+
+        // xpath from the root of the element's document or shadow root, like buildDomTree.js
+        const segments: string[] = [];
+        let current: Element | null = target;
+        while (current) {
+          let position = 0;
+          let sibling = current.previousElementSibling;
+          while (sibling) {
+            if (sibling.nodeName === current.nodeName) {
+              position++;
+            }
+            sibling = sibling.previousElementSibling;
+          }
+          segments.unshift(`${current.nodeName.toLowerCase()}${position > 0 ? `[${position + 1}]` : ''}`);
+          current = current.parentNode instanceof Element ? current.parentNode : null;
+        }
+
+        const attributes: Record<string, string> = {};
+        for (const name of target.getAttributeNames()) {
+          attributes[name] = target.getAttribute(name) ?? '';
+        }
+
+        const scrollX = window.scrollX;
+        const scrollY = window.scrollY;
+        const coordinateSet = (dx: number, dy: number) => ({
+          topLeft: { x: Math.round(rect.left + dx), y: Math.round(rect.top + dy) },
+          topRight: { x: Math.round(rect.right + dx), y: Math.round(rect.top + dy) },
+          bottomLeft: { x: Math.round(rect.left + dx), y: Math.round(rect.bottom + dy) },
+          bottomRight: { x: Math.round(rect.right + dx), y: Math.round(rect.bottom + dy) },
+          center: { x: Math.round(rect.left + rect.width / 2 + dx), y: Math.round(rect.top + rect.height / 2 + dy) },
+          width: Math.round(rect.width),
+          height: Math.round(rect.height),
+        });
+
+        if (args.doHighlight && args.index !== null) {
+          // same container and attribute as buildDomTree.js, so the highlights are removed the same way
+          let container = document.getElementById('playwright-highlight-container');
+          if (!container) {
+            container = document.createElement('div');
+            container.id = 'playwright-highlight-container';
+            container.style.cssText =
+              'position: absolute; pointer-events: none; top: 0; left: 0; width: 100%; height: 100%; z-index: 2147483647;';
+            document.body.appendChild(container);
+          }
+          const colors = ['#FF0000', '#00FF00', '#0000FF', '#FFA500', '#800080', '#008080', '#FF69B4', '#4B0082'];
+          const color = colors[args.index % colors.length];
+          const overlay = document.createElement('div');
+          overlay.style.cssText = `position: absolute; box-sizing: border-box; pointer-events: none; border: 2px solid ${color}; background-color: ${color}1A; top: ${rect.top + scrollY}px; left: ${rect.left + scrollX}px; width: ${rect.width}px; height: ${rect.height}px;`;
+          const label = document.createElement('div');
+          label.className = 'playwright-highlight-label';
+          label.style.cssText = `position: absolute; background: ${color}; color: white; padding: 1px 4px; border-radius: 4px; font-size: 12px; top: ${rect.top + scrollY + 2}px; left: ${rect.right + scrollX - 22}px;`;
+          label.textContent = String(args.index);
+          container.appendChild(overlay);
+          container.appendChild(label);
+          target.setAttribute('browser-user-highlight-id', `playwright-highlight-${args.index}`);
+        }
+
+        return {
+          tagName: target.tagName.toLowerCase(),
+          xpath: segments.join('/'),
+          attributes,
+          viewportCoordinates: coordinateSet(0, 0),
+          pageCoordinates: coordinateSet(scrollX, scrollY),
+          viewportInfo: {
+            scrollX: Math.round(scrollX),
+            scrollY: Math.round(scrollY),
+            width: window.innerWidth,
+            height: window.innerHeight,
+          },
+        };
+      },
+      { index, doHighlight, viewportExpansion },
+    );
+  } catch (error) {
+    logger.warning(`Failed to read the element of accessibility node ${node.role} "${node.name ?? ''}":`, error);
+    return null;
+  } finally {
+    await handle.dispose();
+  }
+}
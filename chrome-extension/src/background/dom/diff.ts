@@ -0,0 +1,85 @@
+import { type DOMBaseNode, DOMElementNode, type DOMState, DOMTextNode } from './views';
+
+export enum ElementChangeEnum {
+  New = 'new',
+  Changed = 'changed',
+}
+
+/**
+ * Difference between the interactive elements of two DOM states of the same page
+ */
+export interface DOMStateDiff {
+  // new and changed elements of the current state, the other elements are unchanged
+  changes: Map<DOMElementNode, ElementChangeEnum>;
+  // highlight index of each unchanged element in the previous state
+  previousIndices: Map<DOMElementNode, number>;
+  // elements of the previous state that are no longer on the page
+  removed: DOMElementNode[];
+  // texts of the previous state, non-interactive texts not in it are new
+  previousTexts: Set<string>;
+}
+
+/**
+ * Compare the interactive elements of two DOM states.
+ * Elements are matched by their position in the tree (branch path and xpath hashes),
+ * a matched element has changed if its attributes or its text changed.
+ * @param previous - The DOM state of the previous step
+ * @param current - The current DOM state
+ * @returns The difference between the states
+ */
+export async function diffDOMStates(previous: DOMState, current: DOMState): Promise<DOMStateDiff> {
+  const previousElements = new Map<string, { node: DOMElementNode; content: string }>();
+  for (const node of previous.selectorMap.values()) {
+    previousElements.set(await elementKey(node), { node, content: await elementContent(node) });
+  }
+
+  const changes = new Map<DOMElementNode, ElementChangeEnum>();
+  const previousIndices = new Map<DOMElementNode, number>();
+  const matched = new Set<DOMElementNode>();
+  for (const node of current.selectorMap.values()) {
+    const previousElement = previousElements.get(await elementKey(node));
+    if (!previousElement || matched.has(previousElement.node)) {
+      changes.set(node, ElementChangeEnum.New);
+      continue;
+    }
+    matched.add(previousElement.node);
+    if (previousElement.content !== (await elementContent(node))) {
+      changes.set(node, ElementChangeEnum.Changed);
+    } else if (previousElement.node.highlightIndex !== undefined) {
+      previousIndices.set(node, previousElement.node.highlightIndex);
+    }
+  }
+
+  const removed = Array.from(previous.selectorMap.values()).filter(node => !matched.has(node));
+  return { changes, previousIndices, removed, previousTexts: collectTexts(previous.elementTree) };
+}
+
+/**
+ * Number of new, changed and removed elements
+ */
+export function countChanges(diff: DOMStateDiff): number {
+  return diff.changes.size + diff.removed.length;
+}
+
+async function elementKey(node: DOMElementNode): Promise<string> {
+  const hashed = await node.hash();
+  return `${node.frameId}:${hashed.branchPathHash}:${hashed.xpathHash}`;
+}
+
+async function elementContent(node: DOMElementNode): Promise<string> {
+  const hashed = await node.hash();
+  return `${hashed.attributesHash}:${node.getAllTextTillNextClickableElement()}`;
+}
+
+function collectTexts(elementTree: DOMElementNode): Set<string> {
+  const texts = new Set<string>();
+  const processNode = (node: DOMBaseNode): void => {
+    if (node instanceof DOMTextNode) {
+      texts.add(node.text);
+    } else if (node instanceof DOMElementNode) {
+      node.children.forEach(processNode);
+    }
+  };
+  processNode(elementTree);
+  return texts;
+}
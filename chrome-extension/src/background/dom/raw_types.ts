@@ -21,6 +21,8 @@ export type RawDomElementNode = {
   pageCoordinates?: CoordinateSet;
   viewportInfo?: ViewportInfo;
   shadowRoot?: boolean;
+  // index of the iframe's content window in window.frames, the frame content is extracted separately
+  frameIndex?: number;
 };
 
 export type RawDomTreeNode = RawDomTextNode | RawDomElementNode;
@@ -29,4 +31,6 @@ export interface BuildDomTreeArgs {
   doHighlightElements: boolean;
   focusHighlightIndex: number;
   viewportExpansion: number;
+  // first highlight index of the frame, so indices stay unique across frames
+  startHighlightIndex: number;
 }
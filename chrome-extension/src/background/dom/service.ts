@@ -1,5 +1,6 @@
 import { createLogger } from '@src/background/log';
 import type { BuildDomTreeArgs, RawDomTreeNode } from './raw_types';
+import type { CoordinateSet } from './history/view';
 import { type DOMState, type DOMBaseNode, DOMElementNode, DOMTextNode } from './views';
 
 const logger = createLogger('DOMService');
@@ -20,6 +21,7 @@ export interface ReadabilityResult {
 declare global {
   interface Window {
     buildDomTree: (args: BuildDomTreeArgs) => RawDomTreeNode | null;
+    getFramePath: () => number[];
     turn2Markdown: (selector?: string) => string;
     parserReadability: () => ReadabilityResult | null;
   }
@@ -134,25 +136,98 @@ function createSelectorMap(elementTree: DOMElementNode): Map<number, DOMElementN
   return selectorMap;
 }
 
+// A frame of the page as seen by chrome.scripting
+interface PageFrame {
+  frameId: number;
+  // indices into each parent's window.frames from the top frame, empty for the top frame
+  framePath: number[];
+}
+
+// An iframe element whose content is extracted from another frame
+interface IframePlaceholder {
+  node: DOMElementNode;
+  framePath: number[];
+}
+
 async function _buildDomTree(
   tabId: number,
   highlightElements = true,
   focusElement = -1,
   viewportExpansion = 0,
 ): Promise<DOMElementNode> {
-  // First, ensure buildDomTree.js is injected
+  const frames = await getPageFrames(tabId);
+  const topFrame = frames.find(frame => frame.framePath.length === 0);
+  if (!topFrame) {
+    throw new Error('Failed to build DOM tree: top frame is not accessible');
+  }
+
+  // Extract the frames one by one, parents before children, so highlight indices are unique across frames
+  let nextHighlightIndex = 0;
+  const frameTrees = new Map<string, DOMElementNode>();
+  const iframes: IframePlaceholder[] = [];
+  for (const frame of frames) {
+    let rawDomTree: RawDomTreeNode | null = null;
+    try {
+      rawDomTree = await buildFrameDomTree(tabId, frame.frameId, {
+        doHighlightElements: highlightElements,
+        focusHighlightIndex: focusElement,
+        viewportExpansion,
+        startHighlightIndex: nextHighlightIndex,
+      });
+    } catch (error) {
+      if (frame === topFrame) {
+        throw error;
+      }
+      // frames can navigate or go away while the page is extracted
+      logger.warning(`Failed to build DOM tree of frame ${frame.frameId}:`, error);
+      continue;
+    }
+    if (rawDomTree === null) {
+      continue;
+    }
+    const frameTree = parseNode(rawDomTree, null, frame, iframes);
+    if (frameTree instanceof DOMElementNode) {
+      frameTrees.set(frame.framePath.join('.'), frameTree);
+      const frameIndices = Array.from(createSelectorMap(frameTree).keys());
+      if (frameIndices.length > 0) {
+        nextHighlightIndex = Math.max(...frameIndices) + 1;
+      }
+    }
+  }
+
+  const elementTree = frameTrees.get('');
+  if (!elementTree) {
+    throw new Error('Failed to build DOM tree: Invalid or empty tree structure');
+  }
+
+  // Attach every frame to its iframe element, placeholders are in frame order so parents are attached first
+  for (const iframe of iframes) {
+    const frameTree = frameTrees.get(iframe.framePath.join('.'));
+    if (frameTree) {
+      attachFrameTree(iframe.node, frameTree);
+    }
+  }
+  return elementTree;
+}
+
+/**
+ * Make sure buildDomTree.js is injected into every frame of the tab and list the frames.
+ * Frames are sorted in document order, the top frame first.
+ */
+async function getPageFrames(tabId: number): Promise<PageFrame[]> {
   try {
-    const isInjected = await chrome.scripting.executeScript({
-      target: { tabId },
+    const injected = await chrome.scripting.executeScript({
+      target: { tabId, allFrames: true },
       func: function () {
         return typeof window.buildDomTree === 'function';
       },
     });
 
-    if (!isInjected[0]?.result) {
-      logger.info('buildDomTree not found, injecting script...');
+    const missingFrameIds = injected.filter(result => !result.result).map(result => result.frameId);
+    if (missingFrameIds.length > 0) {
+      logger.info('buildDomTree not found, injecting script into frames:', missingFrameIds);
       await chrome.scripting.executeScript({
-        target: { tabId },
+        target: { tabId, frameIds: missingFrameIds },
         files: ['buildDomTree.js'],
       });
       // Small delay to ensure script is loaded
@@ -165,35 +240,96 @@ async function _buildDomTree(
   }
 
   const results = await chrome.scripting.executeScript({
-    target: { tabId },
-    func: function (args: { doHighlightElements: boolean; focusHighlightIndex: number; viewportExpansion: number }) {
-      // Access buildDomTree from the window context of the target page
+    target: { tabId, allFrames: true },
+    func: function () {
+      return typeof window.getFramePath === 'function' ? window.getFramePath() : null;
+    },
+  });
+
+  const frames: PageFrame[] = [];
+  for (const result of results) {
+    if (Array.isArray(result.result)) {
+      frames.push({ frameId: result.frameId, framePath: result.result });
+    }
+  }
+  return frames.sort((a, b) => compareFramePaths(a.framePath, b.framePath));
+}
+
+function compareFramePaths(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+async function buildFrameDomTree(
+  tabId: number,
+  frameId: number,
+  args: BuildDomTreeArgs,
+): Promise<RawDomTreeNode | null> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    func: function (args: BuildDomTreeArgs) {
+      // Access buildDomTree from the window context of the target frame
       if (typeof window.buildDomTree !== 'function') {
         console.error('buildDomTree function not available');
         return null;
       }
       return window.buildDomTree(args);
     },
-    args: [
-      {
-        doHighlightElements: highlightElements,
-        focusHighlightIndex: focusElement,
-        viewportExpansion,
-      },
-    ],
+    args: [args],
   });
+  return (results[0]?.result as RawDomTreeNode | undefined) ?? null;
+}
 
-  const rawDomTree = results[0].result;
-  if (rawDomTree !== null) {
-    const elementTree = parseNode(rawDomTree as RawDomTreeNode);
-    if (elementTree !== null && elementTree instanceof DOMElementNode) {
-      return elementTree;
+/**
+ * Attach the tree of a frame to its iframe element.
+ * Coordinates of the frame's elements are relative to the frame, they are moved to be relative to the top frame.
+ */
+function attachFrameTree(iframeNode: DOMElementNode, frameTree: DOMElementNode): void {
+  const viewportOffset = iframeNode.viewportCoordinates?.topLeft ?? { x: 0, y: 0 };
+  const pageOffset = iframeNode.pageCoordinates?.topLeft ?? { x: 0, y: 0 };
+
+  function offsetNode(node: DOMBaseNode): void {
+    if (node instanceof DOMElementNode) {
+      node.viewportCoordinates = offsetCoordinates(node.viewportCoordinates, viewportOffset);
+      node.pageCoordinates = offsetCoordinates(node.pageCoordinates, pageOffset);
+      node.viewportInfo = iframeNode.viewportInfo;
+      node.children.forEach(offsetNode);
     }
   }
-  throw new Error('Failed to build DOM tree: Invalid or empty tree structure');
+
+  offsetNode(frameTree);
+  frameTree.parent = iframeNode;
+  iframeNode.children.push(frameTree);
+}
+
+export function offsetCoordinates(
+  coordinates: CoordinateSet | undefined,
+  offset: { x: number; y: number },
+): CoordinateSet | undefined {
+  if (!coordinates) {
+    return undefined;
+  }
+  const move = (point: { x: number; y: number }) => ({ x: point.x + offset.x, y: point.y + offset.y });
+  return {
+    ...coordinates,
+    topLeft: move(coordinates.topLeft),
+    topRight: move(coordinates.topRight),
+    bottomLeft: move(coordinates.bottomLeft),
+    bottomRight: move(coordinates.bottomRight),
+    center: move(coordinates.center),
+  };
 }
 
-function parseNode(nodeData: RawDomTreeNode, parent: DOMElementNode | null = null): DOMBaseNode | null {
+function parseNode(
+  nodeData: RawDomTreeNode,
+  parent: DOMElementNode | null,
+  frame: PageFrame,
+  iframes: IframePlaceholder[],
+): DOMBaseNode | null {
   if (!nodeData) return null;
 
   if ('type' in nodeData) {
@@ -222,13 +358,18 @@ function parseNode(nodeData: RawDomTreeNode, parent: DOMElementNode | null = nul
     pageCoordinates: pageCoordinates ?? undefined,
     viewportInfo: viewportInfo ?? undefined,
     shadowRoot: nodeData.shadowRoot ?? false,
+    frameId: frame.frameId,
     parent,
   });
 
+  if (nodeData.frameIndex !== undefined) {
+    iframes.push({ node: elementNode, framePath: [...frame.framePath, nodeData.frameIndex] });
+  }
+
   const children: DOMBaseNode[] = [];
   for (const child of nodeData.children || []) {
     if (child !== null) {
-      const childNode = parseNode(child, elementNode);
+      const childNode = parseNode(child, elementNode, frame, iframes);
       if (childNode !== null) {
         children.push(childNode);
       }
@@ -242,7 +383,7 @@ function parseNode(nodeData: RawDomTreeNode, parent: DOMElementNode | null = nul
 export async function removeHighlights(tabId: number): Promise<void> {
   try {
     await chrome.scripting.executeScript({
-      target: { tabId },
+      target: { tabId, allFrames: true },
       func: function () {
         // Remove the highlight container and all its contents
         const container = document.getElementById('playwright-highlight-container');
@@ -1,6 +1,7 @@
 import type { ViewportInfo, CoordinateSet } from './history/view';
 import type { HashedDomElement } from './history/view';
 import { HistoryTreeProcessor } from './history/service';
+import { type DOMStateDiff, ElementChangeEnum } from './diff';
 
 export abstract class DOMBaseNode {
   isVisible: boolean;
@@ -50,6 +51,11 @@ export class DOMElementNode extends DOMBaseNode {
   viewportCoordinates?: CoordinateSet;
   pageCoordinates?: CoordinateSet;
   viewportInfo?: ViewportInfo;
+  /**
+   * frameId: the id of the frame (as used by chrome.scripting) the element lives in, 0 for the top frame.
+   * Highlight indices are unique across all frames of the page.
+   */
+  frameId: number;
 
   constructor(params: {
     tagName: string | null;
@@ -64,6 +70,7 @@ export class DOMElementNode extends DOMBaseNode {
     viewportCoordinates?: CoordinateSet;
     pageCoordinates?: CoordinateSet;
     viewportInfo?: ViewportInfo;
+    frameId?: number;
     parent?: DOMElementNode | null;
   }) {
     super(params.isVisible, params.parent);
@@ -78,6 +85,7 @@ export class DOMElementNode extends DOMBaseNode {
     this.viewportCoordinates = params.viewportCoordinates;
     this.pageCoordinates = params.pageCoordinates;
     this.viewportInfo = params.viewportInfo;
+    this.frameId = params.frameId ?? 0;
   }
 
   // Cache for the hash value
@@ -164,13 +172,55 @@ export class DOMElementNode extends DOMBaseNode {
     return textParts.join('\n').trim();
   }
 
-  clickableElementsToString(includeAttributes: string[] = []): string {
+  /**
+   * Lists the interactive elements and the non-interactive texts of the tree
+   * @param includeAttributes - The attributes to show for each element
+   * @param diff - The difference to a previous state, new elements are marked with * and changed elements with ~
+   * @param onlyChanges - Only list the changes of the diff, unchanged elements are listed as ranges of their indices
+   * @returns One line per element or text
+   */
+  clickableElementsToString(
+    includeAttributes: string[] = [],
+    diff: DOMStateDiff | null = null,
+    onlyChanges = false,
+  ): string {
     const formattedText: string[] = [];
+    // consecutive unchanged elements whose indices in the previous state are consecutive too
+    let unchangedRun: { start: number; end: number; previousStart: number } | null = null;
+
+    const formatRange = (start: number, end: number): string => (start === end ? `[${start}]` : `[${start}-${end}]`);
+    const flushUnchangedRun = (): void => {
+      if (!unchangedRun) return;
+      const { start, end, previousStart } = unchangedRun;
+      const range = formatRange(start, end);
+      formattedText.push(
+        start === previousStart
+          ? `${range} unchanged`
+          : `${range} unchanged, was ${formatRange(previousStart, previousStart + end - start)}`,
+      );
+      unchangedRun = null;
+    };
 
     const processNode = (node: DOMBaseNode, depth: number): void => {
       if (node instanceof DOMElementNode) {
-        // Add element with highlight_index
-        if (node.highlightIndex !== undefined) {
+        const change = diff?.changes.get(node);
+        if (node.highlightIndex !== undefined && diff && onlyChanges && !change) {
+          // Collapse unchanged elements into ranges of indices
+          const index = node.highlightIndex;
+          const previousIndex = diff.previousIndices.get(node) ?? index;
+          if (
+            unchangedRun &&
+            index === unchangedRun.end + 1 &&
+            previousIndex === unchangedRun.previousStart + index - unchangedRun.start
+          ) {
+            unchangedRun.end = index;
+          } else {
+            flushUnchangedRun();
+            unchangedRun = { start: index, end: index, previousStart: previousIndex };
+          }
+        } else if (node.highlightIndex !== undefined) {
+          // Add element with highlight_index
+          flushUnchangedRun();
           let attributesStr = '';
           if (includeAttributes.length) {
             attributesStr = ` ${includeAttributes
@@ -179,8 +229,9 @@ export class DOMElementNode extends DOMBaseNode {
               .join(' ')}`;
           }
 
+          const mark = change === ElementChangeEnum.New ? '*' : change === ElementChangeEnum.Changed ? '~' : '';
           formattedText.push(
-            `[${node.highlightIndex}]<${node.tagName}${attributesStr}>${node.getAllTextTillNextClickableElement()}</${node.tagName}>`,
+            `${mark}[${node.highlightIndex}]<${node.tagName}${attributesStr}>${node.getAllTextTillNextClickableElement()}</${node.tagName}>`,
           );
         }
         // Process children regardless
@@ -189,13 +240,15 @@ export class DOMElementNode extends DOMBaseNode {
         }
       } else if (node instanceof DOMTextNode) {
         // Add text node only if it doesn't have a highlighted parent
-        if (!node.hasParentWithHighlightIndex()) {
+        if (!node.hasParentWithHighlightIndex() && !(diff && onlyChanges && diff.previousTexts.has(node.text))) {
+          flushUnchangedRun();
           formattedText.push(`[]${node.text}`);
         }
       }
     };
 
     processNode(this, 0);
+    flushUnchangedRun();
     return formattedText.join('\n');
   }
 
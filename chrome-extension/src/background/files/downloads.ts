@@ -0,0 +1,72 @@
+import { FileFormatEnum, type SavedFile, savedFileStore } from '@extension/storage';
+import { createLogger } from '../log';
+
+const logger = createLogger('Downloads');
+
+// Files are saved to this folder inside the user's downloads folder
+const DOWNLOADS_FOLDER = 'PagePilot';
+
+const MIME_TYPES: Record<FileFormatEnum, string> = {
+  [FileFormatEnum.Markdown]: 'text/markdown',
+  [FileFormatEnum.Json]: 'application/json',
+  [FileFormatEnum.Csv]: 'text/csv',
+};
+
+/**
+ * Make a file name safe to use as a download path and give it the extension of its format
+ * @param filename - The requested file name, folders are not allowed
+ * @param format - The file format
+ */
+export function sanitizeFilename(filename: string, format: FileFormatEnum): string {
+  const base = filename
+    .trim()
+    .replace(/\.(md|markdown|json|csv|txt)$/i, '')
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(0, 100);
+  return `${base || 'export'}.${format}`;
+}
+
+// Service workers can not create object URLs, the content is passed as a data URL instead
+function toDataUrl(content: string, mimeType: string): string {
+  const bytes = new TextEncoder().encode(content);
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};charset=utf-8;base64,${btoa(binary)}`;
+}
+
+/**
+ * Download a file with chrome.downloads and list it in the files of the chat session
+ * @param sessionId - The chat session the file belongs to
+ * @param filename - The file name, see sanitizeFilename
+ * @param content - The text content of the file
+ * @param format - The file format
+ * @param savedBy - Whether the navigator saved the file or the user exported the session
+ */
+export async function saveFile(
+  sessionId: string,
+  filename: string,
+  content: string,
+  format: FileFormatEnum,
+  savedBy: SavedFile['savedBy'],
+): Promise<SavedFile> {
+  const path = `${DOWNLOADS_FOLDER}/${sanitizeFilename(filename, format)}`;
+  const downloadId = await chrome.downloads.download({
+    url: toDataUrl(content, MIME_TYPES[format]),
+    filename: path,
+    conflictAction: 'uniquify',
+    saveAs: false,
+  });
+  logger.info('saved file', path, downloadId);
+
+  return savedFileStore.addFile(sessionId, {
+    filename: path,
+    format,
+    size: new TextEncoder().encode(content).length,
+    downloadId,
+    savedBy,
+  });
+}
@@ -0,0 +1,104 @@
+import {
+  chatHistoryStore,
+  datasetStore,
+  type DatasetRecord,
+  FileFormatEnum,
+  type SavedFile,
+  type TaskOutput,
+  TaskOutputKindEnum,
+  taskOutputStore,
+} from '@extension/storage';
+import { saveFile } from './downloads';
+
+const OUTPUT_TITLES: Record<TaskOutputKindEnum, string> = {
+  [TaskOutputKindEnum.FinalAnswer]: 'Final Answer',
+  [TaskOutputKindEnum.ExtractedContent]: 'Extracted Content',
+  [TaskOutputKindEnum.CachedContent]: 'Cached Content',
+};
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Convert rows to CSV, with one column per key found in any row
+ */
+export function rowsToCsv(rows: Record<string, unknown>[]): string {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = rows.map(row => columns.map(column => escapeCsv(row[column])).join(','));
+  return [columns.map(escapeCsv).join(','), ...lines].join('\n');
+}
+
+/**
+ * Flatten dataset records into CSV rows, one column per top level field of the data.
+ * Data that is not an object goes into a "value" column.
+ */
+export function datasetRecordsToRows(records: DatasetRecord[]): Record<string, unknown>[] {
+  return records.map(record => {
+    const data =
+      record.data && typeof record.data === 'object' && !Array.isArray(record.data)
+        ? (record.data as Record<string, unknown>)
+        : { value: record.data };
+    return { ...data, url: record.url };
+  });
+}
+
+function toMarkdown(title: string, outputs: TaskOutput[], records: DatasetRecord[]): string {
+  const sections = [`# ${title}`];
+  for (const kind of Object.values(TaskOutputKindEnum)) {
+    const items = outputs.filter(output => output.kind === kind);
+    if (items.length > 0) {
+      sections.push(`## ${OUTPUT_TITLES[kind]}`, ...items.map(item => item.content));
+    }
+  }
+  if (records.length > 0) {
+    sections.push(
+      '## Dataset',
+      `\`\`\`json\n${JSON.stringify(
+        records.map(record => record.data),
+        null,
+        2,
+      )}\n\`\`\``,
+    );
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Export the results of a chat session as a file: the final answers, extracted and cached content,
+ * and the dataset of extract_structured. As CSV, the dataset is exported if there is one, the outputs otherwise.
+ * @param sessionId - The chat session to export
+ * @param format - The file format
+ */
+export async function exportSession(sessionId: string, format: FileFormatEnum): Promise<SavedFile> {
+  const session = await chatHistoryStore.getSession(sessionId);
+  const title = session?.title ?? 'Task results';
+  const outputs = await taskOutputStore.getOutputs(sessionId);
+  const records = (await datasetStore.getDataset(sessionId))?.records ?? [];
+  if (outputs.length === 0 && records.length === 0) {
+    throw new Error('The session has no results to export');
+  }
+
+  let content: string;
+  switch (format) {
+    case FileFormatEnum.Markdown:
+      content = toMarkdown(title, outputs, records);
+      break;
+    case FileFormatEnum.Json:
+      content = JSON.stringify({ title, outputs, dataset: records }, null, 2);
+      break;
+    case FileFormatEnum.Csv:
+      content = rowsToCsv(
+        records.length > 0
+          ? datasetRecordsToRows(records)
+          : outputs.map(output => ({ ...output, createdAt: new Date(output.createdAt).toISOString() })),
+      );
+      break;
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+
+  return saveFile(sessionId, title, content, format, 'user');
+}
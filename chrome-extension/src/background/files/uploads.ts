@@ -0,0 +1,90 @@
+import { type FileAttachment, fileAttachmentStore } from '@extension/storage';
+import { createLogger } from '../log';
+
+const logger = createLogger('Uploads');
+
+// Attached files are written to this folder inside the user's downloads folder before they are uploaded
+const UPLOADS_FOLDER = 'PagePilot/uploads';
+// Longest wait for an attached file to be written to disk, in milliseconds
+const WRITE_TIMEOUT = 30000;
+
+// Keep the extension of the file, only strip characters that are not allowed in download paths
+function sanitizeUploadName(name: string): string {
+  const safeName = name
+    .trim()
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-100);
+  return safeName || 'upload';
+}
+
+function waitForDownload(downloadId: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      chrome.downloads.onChanged.removeListener(listener);
+      reject(new Error(`Timed out writing download ${downloadId} to disk`));
+    }, WRITE_TIMEOUT);
+
+    const listener = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id !== downloadId || !delta.state) {
+        return;
+      }
+      if (delta.state.current === 'complete' || delta.state.current === 'interrupted') {
+        clearTimeout(timeout);
+        chrome.downloads.onChanged.removeListener(listener);
+        if (delta.state.current === 'complete') {
+          resolve();
+        } else {
+          reject(new Error(`Download ${downloadId} was interrupted: ${delta.error?.current ?? 'unknown error'}`));
+        }
+      }
+    };
+    chrome.downloads.onChanged.addListener(listener);
+  });
+}
+
+/**
+ * Write an attached file to disk, DOM.setFileInputFiles only accepts paths of files on disk.
+ * The file must stay on disk until the page has read it, remove it with removeWrittenAttachments afterwards.
+ * @param attachment - The attached file
+ * @returns The id of the download that wrote the file, and the absolute path of the file
+ */
+export async function writeAttachmentToDisk(attachment: FileAttachment): Promise<{ downloadId: number; path: string }> {
+  const content = await fileAttachmentStore.getContent(attachment.id);
+  const downloadId = await chrome.downloads.download({
+    url: `data:${attachment.mimeType};base64,${content}`,
+    filename: `${UPLOADS_FOLDER}/${sanitizeUploadName(attachment.name)}`,
+    conflictAction: 'uniquify',
+    saveAs: false,
+  });
+  await waitForDownload(downloadId);
+
+  const [item] = await chrome.downloads.search({ id: downloadId });
+  if (!item?.filename) {
+    await removeWrittenAttachments([downloadId]);
+    throw new Error(`Path of the written file ${attachment.name} not found`);
+  }
+  logger.info('wrote attached file', attachment.name, item.filename);
+  return { downloadId, path: item.filename };
+}
+
+/**
+ * Remove the files written by writeAttachmentToDisk from disk, then their downloads from the download history.
+ * A download that is erased first can not be removed from disk anymore.
+ * @param downloadIds - The ids of the downloads that wrote the files
+ */
+export async function removeWrittenAttachments(downloadIds: number[]): Promise<void> {
+  for (const downloadId of downloadIds) {
+    try {
+      await chrome.downloads.removeFile(downloadId);
+    } catch (error) {
+      // the file may have been deleted already, its download is still erased
+      logger.warning('Failed to remove written file', downloadId, error);
+    }
+    try {
+      await chrome.downloads.erase({ id: downloadId });
+    } catch (error) {
+      logger.warning('Failed to erase download', downloadId, error);
+    }
+  }
+}
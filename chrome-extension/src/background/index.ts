@@ -1,16 +1,31 @@
 import 'webextension-polyfill';
-import { agentModelStore, AgentNameEnum, generalSettingsStore, llmProviderStore } from '@extension/storage';
+import {
+  agentModelStore,
+  AgentNameEnum,
+  approvalSettingsStore,
+  browserSettingsStore,
+  FileFormatEnum,
+  generalSettingsStore,
+  llmProviderStore,
+  modelPriceStore,
+  secretVaultStore,
+  stealthSettingsStore,
+} from '@extension/storage';
 import BrowserContext from './browser/context';
 import { Executor } from './agent/executor';
 import { createLogger } from './log';
-import { ExecutionState } from './agent/event/types';
+import type { AgentEvent } from './agent/event/types';
 import { createChatModel } from './agent/helper';
+import { createTokenizer } from './agent/messages/tokenizer';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { TaskManager } from './task/manager';
+import { exportSession } from './files/export';
 
 const logger = createLogger('background');
 
+// browser context for requests that don't belong to a task, e.g. screenshots
 const browserContext = new BrowserContext({});
-let currentExecutor: Executor | null = null;
+const taskManager = new TaskManager(setupExecutor, postExecutionEvent);
 let currentPort: chrome.runtime.Port | null = null;
 
 // Setup side panel behavior
@@ -65,6 +80,7 @@ chrome.debugger.onDetach.addListener(async (source, reason) => {
   if (reason === 'canceled_by_user') {
     if (source.tabId) {
       await browserContext.cleanup();
+      await taskManager.cleanupTab(source.tabId);
     }
   }
 });
@@ -72,8 +88,25 @@ chrome.debugger.onDetach.addListener(async (source, reason) => {
 // Cleanup when tab is closed
 chrome.tabs.onRemoved.addListener(tabId => {
   browserContext.removeAttachedPage(tabId);
+  taskManager.removeAttachedPage(tabId);
 });
 
+// Apply the browser settings and the stealth profile to the browser contexts, changes apply to the running tasks too
+async function applyBrowserSettings() {
+  const config = { ...(await browserSettingsStore.getSettings()), stealth: await stealthSettingsStore.getSettings() };
+  browserContext.updateConfig(config);
+  taskManager.updateBrowserConfig(config);
+}
+applyBrowserSettings().catch(error => logger.error('Failed to apply browser settings:', error));
+for (const store of [browserSettingsStore, stealthSettingsStore]) {
+  store.subscribe(() => {
+    applyBrowserSettings().catch(error => logger.error('Failed to apply browser settings:', error));
+  });
+}
+
+// Resume the persisted task queue, the service worker may have been restarted
+taskManager.restore().catch(error => logger.error('Failed to restore task queue:', error));
+
 logger.info('background loaded');
 
 // Setup connection listener
@@ -94,11 +127,14 @@ chrome.runtime.onConnect.addListener(port => {
             if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
 
             logger.info('new_task', message.tabId, message.task);
-            currentExecutor = await setupExecutor(message.taskId, message.task, browserContext);
-            subscribeToExecutorEvents(currentExecutor);
-
-            const result = await currentExecutor.execute();
-            logger.info('new_task execution result', message.tabId, result);
+            const record = await taskManager.addTask({
+              taskId: message.taskId,
+              task: message.task,
+              tabId: message.tabId,
+              priority: message.priority,
+              device: message.device,
+            });
+            await notifyIfQueued(port, record.id);
             break;
           }
           case 'follow_up_task': {
@@ -106,28 +142,36 @@ chrome.runtime.onConnect.addListener(port => {
             if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
 
             logger.info('follow_up_task', message.tabId, message.task);
-
-            // If executor exists, add follow-up task
-            if (currentExecutor) {
-              currentExecutor.addFollowUpTask(message.task);
-              // Re-subscribe to events in case the previous subscription was cleaned up
-              subscribeToExecutorEvents(currentExecutor);
-              const result = await currentExecutor.execute();
-              logger.info('follow_up_task execution result', message.tabId, result);
-            } else {
-              // executor was cleaned up, can not add follow-up task
-              logger.info('follow_up_task: executor was cleaned up, can not add follow-up task');
-              return port.postMessage({ type: 'error', error: 'Executor was cleaned up, can not add follow-up task' });
-            }
+            const record = await taskManager.addFollowUpTask({
+              taskId: message.taskId,
+              task: message.task,
+              tabId: message.tabId,
+              priority: message.priority,
+            });
+            await notifyIfQueued(port, record.id);
             break;
           }
 
           case 'cancel_task': {
-            if (!currentExecutor) return port.postMessage({ type: 'error', error: 'No task to cancel' });
-            await currentExecutor.cancel();
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            await taskManager.cancelTask(message.taskId);
             break;
           }
 
+          case 'list_tasks': {
+            const tasks = await taskManager.listTasks();
+            return port.postMessage({ type: 'task_list', tasks });
+          }
+
+          case 'reprioritize_task': {
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            if (typeof message.priority !== 'number') {
+              return port.postMessage({ type: 'error', error: 'No priority provided' });
+            }
+            await taskManager.reprioritizeTask(message.taskId, message.priority);
+            return port.postMessage({ type: 'task_list', tasks: await taskManager.listTasks() });
+          }
+
           case 'screenshot': {
             if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
             const page = await browserContext.switchTab(message.tabId);
@@ -137,16 +181,56 @@ chrome.runtime.onConnect.addListener(port => {
           }
 
           case 'resume_task': {
-            if (!currentExecutor) return port.postMessage({ type: 'error', error: 'No task to resume' });
-            await currentExecutor.resume();
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            await taskManager.resumeTask(message.taskId);
             return port.postMessage({ type: 'success' });
           }
 
           case 'pause_task': {
-            if (!currentExecutor) return port.postMessage({ type: 'error', error: 'No task to pause' });
-            await currentExecutor.pause();
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            await taskManager.pauseTask(message.taskId);
             return port.postMessage({ type: 'success' });
           }
+
+          case 'approve_action':
+          case 'reject_action': {
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            await taskManager.resolveApproval(message.taskId, message.type === 'approve_action');
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'resume_from_checkpoint': {
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
+
+            logger.info('resume_from_checkpoint', message.taskId);
+            const record = await taskManager.resumeFromCheckpoint(message.taskId, message.tabId);
+            await notifyIfQueued(port, record.id);
+            break;
+          }
+
+          case 'export_session': {
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            if (!Object.values(FileFormatEnum).includes(message.format)) {
+              return port.postMessage({ type: 'error', error: 'Unsupported export format' });
+            }
+            const file = await exportSession(message.taskId, message.format);
+            return port.postMessage({ type: 'file_saved', taskId: message.taskId, file });
+          }
+
+          case 'replay_task': {
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            if (!message.macroId) return port.postMessage({ type: 'error', error: 'No macro ID provided' });
+            if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
+
+            logger.info('replay_task', message.tabId, message.macroId);
+            const record = await taskManager.addReplayTask(
+              { taskId: message.taskId, tabId: message.tabId, priority: message.priority },
+              message.macroId,
+            );
+            await notifyIfQueued(port, record.id);
+            break;
+          }
           default:
             return port.postMessage({ type: 'error', error: 'Unknown message type' });
         }
@@ -199,6 +283,10 @@ async function setupExecutor(taskId: string, task: string, browserContext: Brows
   }
 
   const generalSettings = await generalSettingsStore.getSettings();
+  const approvalSettings = await approvalSettingsStore.getSettings();
+  // secrets are only available when the vault has been unlocked in the options page
+  const secretValues = await secretVaultStore.getAllSecretValues();
+  const modelPrices = await modelPriceStore.getPrices();
   const executor = new Executor(task, taskId, browserContext, navigatorLLM, {
     plannerLLM: plannerLLM ?? navigatorLLM,
     validatorLLM: validatorLLM ?? navigatorLLM,
@@ -209,33 +297,33 @@ async function setupExecutor(taskId: string, task: string, browserContext: Brows
       useVision: generalSettings.useVision,
       useVisionForPlanner: generalSettings.useVisionForPlanner,
       planningInterval: generalSettings.planningInterval,
+      sendPageChangesOnly: generalSettings.sendPageChangesOnly,
     },
+    approvalRules: approvalSettings.enabled ? approvalSettings.rules : [],
+    sensitiveData: Object.keys(secretValues).length > 0 ? secretValues : undefined,
+    modelPrices,
+    // the history is sent to the navigator, so its tokens are counted with the navigator's tokenizer
+    tokenizer: createTokenizer(navigatorModel.modelName),
   });
 
   return executor;
 }
 
-// Update subscribeToExecutorEvents to use port
-async function subscribeToExecutorEvents(executor: Executor) {
-  // Clear previous event listeners to prevent multiple subscriptions
-  executor.clearExecutionEvents();
-
-  // Subscribe to new events
-  executor.subscribeExecutionEvents(async event => {
-    try {
-      if (currentPort) {
-        currentPort.postMessage(event);
-      }
-    } catch (error) {
-      logger.error('Failed to send message to side panel:', error);
-    }
+// Tell the side panel that the task is waiting for other tasks to finish
+async function notifyIfQueued(port: chrome.runtime.Port, taskId: string) {
+  const position = await taskManager.getQueuePosition(taskId);
+  if (position >= 0) {
+    port.postMessage({ type: 'task_queued', taskId, position });
+  }
+}
 
-    if (
-      event.state === ExecutionState.TASK_OK ||
-      event.state === ExecutionState.TASK_FAIL ||
-      event.state === ExecutionState.TASK_CANCEL
-    ) {
-      await currentExecutor?.cleanup();
+// Forward execution events of all tasks to the side panel
+async function postExecutionEvent(event: AgentEvent) {
+  try {
+    if (currentPort) {
+      currentPort.postMessage(event);
     }
-  });
+  } catch (error) {
+    logger.error('Failed to send message to side panel:', error);
+  }
 }
@@ -0,0 +1,479 @@
+import {
+  browserSettingsStore,
+  DeviceEmulationEnum,
+  generalSettingsStore,
+  stealthSettingsStore,
+  type Macro,
+  macroStore,
+  type TaskRecord,
+  TaskStatusEnum,
+  type TaskCheckpoint,
+  taskCheckpointStore,
+  taskQueueStore,
+} from '@extension/storage';
+import BrowserContext from '../browser/context';
+import type { BrowserContextConfig } from '../browser/types';
+import type { Executor } from '../agent/executor';
+import { Actors, AgentEvent, type EventCallback, ExecutionState } from '../agent/event/types';
+import { createLogger } from '../log';
+
+const logger = createLogger('TaskManager');
+
+// Finished tasks whose state is kept for follow-up tasks, the oldest are dropped first
+const MAX_FINISHED_TASKS = 20;
+
+/**
+ * Creates an executor for a task, bound to the given browser context
+ */
+export type ExecutorFactory = (taskId: string, task: string, browserContext: BrowserContext) => Promise<Executor>;
+
+export interface TaskParams {
+  taskId: string;
+  task: string;
+  tabId: number;
+  priority?: number;
+  // device the pages of a new task are emulated as, follow-up tasks keep the device of the task
+  device?: DeviceEmulationEnum;
+}
+
+interface EnqueueOptions {
+  isFollowUp?: boolean;
+  fromCheckpoint?: boolean;
+  // id of the macro to replay
+  replayOf?: string | null;
+}
+
+interface ManagedTask {
+  executor: Executor;
+  browserContext: BrowserContext;
+  tabId: number;
+  running: boolean;
+}
+
+/**
+ * What is left of a finished task, a follow-up task continues from it in a new executor.
+ * The browser context is cleaned up, it only keeps the task's tab group or window and the tabs it opened.
+ */
+interface FinishedTask {
+  checkpoint: Omit<TaskCheckpoint, 'updatedAt'>;
+  browserContext: BrowserContext;
+}
+
+/**
+ * Sort queued tasks by priority (higher first), then by creation time (older first)
+ */
+function compareTasks(a: TaskRecord, b: TaskRecord): number {
+  if (a.priority !== b.priority) {
+    return b.priority - a.priority;
+  }
+  return a.createdAt - b.createdAt;
+}
+
+/**
+ * Run a cleanup step of a task, a failing step is logged so that the following steps still run
+ */
+async function runCleanupStep(taskId: string, step: string, cleanup: () => Promise<unknown>): Promise<void> {
+  try {
+    await cleanup();
+  } catch (error) {
+    logger.error(`Failed to ${step}`, taskId, error);
+  }
+}
+
+/**
+ * Queues tasks and runs them with a limited number of concurrent executors.
+ *
+ * Every task runs in its own BrowserContext bound to the tab it was started from,
+ * and two running tasks never share the same tab. The queue is persisted in
+ * chrome.storage so that pending and interrupted tasks survive a service worker restart.
+ */
+export class TaskManager {
+  private readonly _createExecutor: ExecutorFactory;
+  private readonly _onEvent: EventCallback;
+  // executors of the tasks being started or running
+  private _tasks: Map<string, ManagedTask> = new Map();
+  // state of the finished tasks, so that follow-up tasks can continue them, oldest first
+  private _finishedTasks: Map<string, FinishedTask> = new Map();
+  private _scheduling: Promise<void> = Promise.resolve();
+
+  constructor(createExecutor: ExecutorFactory, onEvent: EventCallback) {
+    this._createExecutor = createExecutor;
+    this._onEvent = onEvent;
+  }
+
+  /**
+   * Restore the persisted queue after the service worker has been (re)started.
+   * Tasks that were running when the worker was killed are queued again,
+   * and continue from their last checkpoint if they have one.
+   */
+  async restore(): Promise<void> {
+    const requeued = await taskQueueStore.requeueRunningTasks();
+    if (requeued.length > 0) {
+      logger.info(
+        'requeued interrupted tasks',
+        requeued.map(task => task.id),
+      );
+    }
+    for (const record of requeued) {
+      if (await taskCheckpointStore.getCheckpoint(record.id)) {
+        await taskQueueStore.updateTask(record.id, { fromCheckpoint: true });
+      }
+    }
+    await this.schedule();
+  }
+
+  async addTask(params: TaskParams): Promise<TaskRecord> {
+    await this._replaceTask(params.taskId);
+    return this._enqueue(params);
+  }
+
+  /**
+   * Queue a task that replays a recorded macro instead of asking the LLM
+   * @param params - The task to start, its description is taken from the macro
+   * @param macroId - The id of the macro, the chat session it was recorded in
+   */
+  async addReplayTask(params: Omit<TaskParams, 'task'>, macroId: string): Promise<TaskRecord> {
+    const macro = await macroStore.getMacro(macroId);
+    if (!macro) {
+      throw new Error(`No recorded macro found for task ${macroId}`);
+    }
+    await this._replaceTask(params.taskId);
+    return this._enqueue({ ...params, task: macro.task }, { replayOf: macroId });
+  }
+
+  async addFollowUpTask(params: TaskParams): Promise<TaskRecord> {
+    if (this._tasks.has(params.taskId)) {
+      throw new Error(`Task ${params.taskId} is still running`);
+    }
+    if (!this._finishedTasks.has(params.taskId)) {
+      throw new Error('Executor was cleaned up, can not add follow-up task');
+    }
+    return this._enqueue(params, { isFollowUp: true });
+  }
+
+  /**
+   * Resume a task that was interrupted by a service worker restart from its last checkpoint.
+   * If the task is already queued or running, nothing is changed.
+   * @param taskId - The ID of the task to resume
+   * @param tabId - The tab to run on if the checkpoint has no tab
+   */
+  async resumeFromCheckpoint(taskId: string, tabId: number): Promise<TaskRecord> {
+    const record = await taskQueueStore.getTask(taskId);
+    if (record) {
+      return record;
+    }
+
+    const checkpoint = await taskCheckpointStore.getCheckpoint(taskId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for task ${taskId}`);
+    }
+    return this._enqueue(
+      {
+        taskId,
+        task: checkpoint.tasks[checkpoint.tasks.length - 1],
+        tabId: checkpoint.tabId ?? tabId,
+      },
+      { fromCheckpoint: true },
+    );
+  }
+
+  /**
+   * Get the queued and running tasks in the order they will be started
+   */
+  async listTasks(): Promise<TaskRecord[]> {
+    const tasks = await taskQueueStore.getAllTasks();
+    return [...tasks].sort(compareTasks);
+  }
+
+  /**
+   * Get the position of a pending task in the queue
+   * @returns The zero-based position, or -1 if the task is not pending
+   */
+  async getQueuePosition(taskId: string): Promise<number> {
+    const pendingTasks = (await this.listTasks()).filter(task => task.status === TaskStatusEnum.Pending);
+    return pendingTasks.findIndex(task => task.id === taskId);
+  }
+
+  async cancelTask(taskId: string): Promise<void> {
+    const managed = this._tasks.get(taskId);
+    if (managed?.running) {
+      await managed.executor.cancel();
+      return;
+    }
+
+    const record = await taskQueueStore.getTask(taskId);
+    if (!record) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    await taskQueueStore.removeTask(taskId);
+    await this._emitSystemEvent(taskId, ExecutionState.TASK_CANCEL, 'Task cancelled');
+  }
+
+  async reprioritizeTask(taskId: string, priority: number): Promise<TaskRecord> {
+    const record = await taskQueueStore.updateTask(taskId, { priority });
+    await this.schedule();
+    return record;
+  }
+
+  async pauseTask(taskId: string): Promise<void> {
+    const managed = this._tasks.get(taskId);
+    if (!managed?.running) {
+      throw new Error(`Task ${taskId} is not running`);
+    }
+    await managed.executor.pause();
+  }
+
+  async resumeTask(taskId: string): Promise<void> {
+    const managed = this._tasks.get(taskId);
+    if (!managed?.running) {
+      throw new Error(`Task ${taskId} is not running`);
+    }
+    await managed.executor.resume();
+  }
+
+  async resolveApproval(taskId: string, approved: boolean): Promise<void> {
+    const managed = this._tasks.get(taskId);
+    if (!managed?.running) {
+      throw new Error(`Task ${taskId} is not running`);
+    }
+    await managed.executor.resolveApproval(approved);
+  }
+
+  /**
+   * Remove a closed tab from all task browser contexts
+   * @param tabId - The ID of the closed tab
+   */
+  removeAttachedPage(tabId: number): void {
+    for (const { browserContext } of [...this._tasks.values(), ...this._finishedTasks.values()]) {
+      browserContext.removeAttachedPage(tabId);
+    }
+  }
+
+  /**
+   * Apply changed browser settings to the browser contexts of the tasks, running tasks included
+   * @param config - The config values to change
+   */
+  updateBrowserConfig(config: Partial<BrowserContextConfig>): void {
+    for (const { browserContext } of [...this._tasks.values(), ...this._finishedTasks.values()]) {
+      browserContext.updateConfig(config);
+    }
+  }
+
+  /**
+   * Clean up the browser contexts that have the given tab attached
+   * @param tabId - The ID of the tab the debugger was detached from
+   */
+  async cleanupTab(tabId: number): Promise<void> {
+    for (const managed of this._tasks.values()) {
+      if (managed.browserContext.hasAttachedPage(tabId)) {
+        await managed.browserContext.cleanup();
+      }
+    }
+  }
+
+  /**
+   * Start as many pending tasks as allowed. Scheduling runs are serialized to avoid starting a task twice.
+   */
+  schedule(): Promise<void> {
+    this._scheduling = this._scheduling
+      .then(() => this._schedule())
+      .catch(error => {
+        logger.error('Failed to schedule tasks:', error);
+      });
+    return this._scheduling;
+  }
+
+  /**
+   * Drop the state of a previous task with the same id, a new task replaces its executor and its checkpoint.
+   * Runs between the scheduling runs, so that the task is not being started meanwhile.
+   */
+  private async _replaceTask(taskId: string): Promise<void> {
+    const replaced = this._scheduling.then(async () => {
+      if (this._tasks.has(taskId)) {
+        throw new Error(`Task ${taskId} is already running`);
+      }
+      this._finishedTasks.delete(taskId);
+      await taskCheckpointStore.removeCheckpoint(taskId);
+    });
+    // a failed replacement must not stop the scheduling runs queued after it
+    this._scheduling = replaced.catch(() => {});
+    await replaced;
+  }
+
+  private async _enqueue(params: TaskParams, options: EnqueueOptions = {}): Promise<TaskRecord> {
+    const record = await taskQueueStore.enqueueTask({
+      id: params.taskId,
+      task: params.task,
+      tabId: params.tabId,
+      priority: params.priority ?? 0,
+      isFollowUp: options.isFollowUp ?? false,
+      fromCheckpoint: options.fromCheckpoint ?? false,
+      replayOf: options.replayOf ?? null,
+      device: params.device ?? DeviceEmulationEnum.None,
+    });
+    logger.info('enqueued task', record.id, record.isFollowUp ? '(follow-up)' : '', record.replayOf ? '(replay)' : '');
+    await this.schedule();
+    return (await taskQueueStore.getTask(record.id)) ?? record;
+  }
+
+  private async _schedule(): Promise<void> {
+    const settings = await generalSettingsStore.getSettings();
+    const maxConcurrentTasks = Math.max(1, settings.maxConcurrentTasks || 1);
+
+    const running = Array.from(this._tasks.values()).filter(managed => managed.running);
+    const busyTabIds = new Set(running.map(managed => managed.tabId));
+    let runningCount = running.length;
+
+    const pendingTasks = (await this.listTasks()).filter(task => task.status === TaskStatusEnum.Pending);
+    for (const record of pendingTasks) {
+      if (runningCount >= maxConcurrentTasks) {
+        break;
+      }
+      // never run two tasks on the same tab
+      if (busyTabIds.has(record.tabId)) {
+        continue;
+      }
+      if (await this._startTask(record)) {
+        busyTabIds.add(record.tabId);
+        runningCount++;
+      }
+    }
+  }
+
+  private async _startTask(record: TaskRecord): Promise<boolean> {
+    logger.info('starting task', record.id, record.tabId);
+    let managed: ManagedTask;
+    let macro: Macro | null = null;
+    let checkpoint: TaskCheckpoint | null = null;
+
+    try {
+      const finished = record.isFollowUp ? this._finishedTasks.get(record.id) : undefined;
+      if (finished) {
+        const { browserContext } = finished;
+        // an isolated task continues in its own tab group or window
+        if (!browserContext.isolated) {
+          browserContext.updateCurrentTabId(record.tabId);
+        }
+        await browserContext.isolate(record.task);
+        const executor = await this._createExecutor(record.id, finished.checkpoint.tasks[0], browserContext);
+        executor.restoreCheckpoint(finished.checkpoint);
+        executor.addFollowUpTask(record.task);
+        managed = { executor, browserContext, tabId: record.tabId, running: false };
+        this._finishedTasks.delete(record.id);
+        this._tasks.set(record.id, managed);
+      } else {
+        checkpoint = record.fromCheckpoint ? await taskCheckpointStore.getCheckpoint(record.id) : null;
+        // the state of the finished task is lost when the service worker restarts before the follow-up starts
+        if (record.isFollowUp && !checkpoint) {
+          throw new Error('The previous task can not be continued after the extension restarted, start a new task');
+        }
+        // the agent may have moved to another tab before it was interrupted
+        const tabId = checkpoint?.tabId ?? record.tabId;
+        const settings = await generalSettingsStore.getSettings();
+        const browserSettings = await browserSettingsStore.getSettings();
+        const browserContext = new BrowserContext({
+          ...browserSettings,
+          stealth: await stealthSettingsStore.getSettings(),
+          allowedDomains: settings.allowedDomains,
+          deniedDomains: settings.deniedDomains,
+          pageStateProvider: settings.pageStateProvider,
+          highlightMode: settings.highlightMode,
+          dialogPolicy: settings.dialogPolicy,
+          captureNetworkResponses: settings.captureNetworkResponses,
+          tabIsolation: settings.tabIsolation,
+          device: record.device ?? DeviceEmulationEnum.None,
+        });
+        browserContext.updateCurrentTabId(tabId);
+        await browserContext.isolate(record.task);
+        const executor = await this._createExecutor(record.id, checkpoint?.tasks[0] ?? record.task, browserContext);
+        if (checkpoint) {
+          executor.restoreCheckpoint(checkpoint);
+        }
+        managed = { executor, browserContext, tabId, running: false };
+        this._tasks.set(record.id, managed);
+      }
+      // a replay that was interrupted by a restart continues with the next macro action,
+      // or like a normal task if the navigator had taken over already
+      if (record.replayOf && (!checkpoint || checkpoint.replayedActions !== undefined)) {
+        macro = await macroStore.getMacro(record.replayOf);
+        if (!macro) {
+          throw new Error(`No recorded macro found for task ${record.replayOf}`);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to start task', record.id, errorMessage);
+      await taskQueueStore.removeTask(record.id);
+      await this._emitSystemEvent(record.id, ExecutionState.TASK_FAIL, errorMessage);
+      return false;
+    }
+
+    managed.running = true;
+    await taskQueueStore.updateTask(record.id, { status: TaskStatusEnum.Running });
+
+    // Clear previous event listeners to prevent multiple subscriptions
+    managed.executor.clearExecutionEvents();
+    managed.executor.subscribeExecutionEvents(this._onEvent);
+
+    // run the task in the background, the scheduler is not blocked by it
+    void this._runTask(record.id, managed, macro);
+    return true;
+  }
+
+  private async _runTask(taskId: string, managed: ManagedTask, macro: Macro | null): Promise<void> {
+    try {
+      if (macro) {
+        await managed.executor.replay(macro.actions);
+      } else {
+        await managed.executor.execute();
+      }
+      logger.info('task finished', taskId);
+    } catch (error) {
+      logger.error('task execution failed', taskId, error);
+    } finally {
+      await this._finishTask(taskId, managed);
+    }
+  }
+
+  /**
+   * Clean up after a task is done. The task is always removed from the running tasks and the queue,
+   * a failing cleanup step must not keep it running and block the scheduler.
+   */
+  private async _finishTask(taskId: string, managed: ManagedTask): Promise<void> {
+    managed.running = false;
+    const { executor, browserContext } = managed;
+    await runCleanupStep(taskId, 'clean up the executor', () => executor.cleanup());
+    await runCleanupStep(taskId, 'put the tabs away', async () => {
+      const { closeOpenedTabsOnCompletion, closeTabsOnCompletion } = await generalSettingsStore.getSettings();
+      if (closeOpenedTabsOnCompletion) {
+        await browserContext.closeOpenedTabs();
+      }
+      await browserContext.releaseIsolation(closeTabsOnCompletion);
+    });
+    // the executor holds the LLMs and the pages' state, only the state a follow-up task continues from is kept
+    this._tasks.delete(taskId);
+    await runCleanupStep(taskId, 'keep the state of the finished task', async () => {
+      this._finishedTasks.set(taskId, { checkpoint: executor.createCheckpoint(0), browserContext });
+      if (this._finishedTasks.size > MAX_FINISHED_TASKS) {
+        const [oldestTaskId] = this._finishedTasks.keys();
+        this._finishedTasks.delete(oldestTaskId);
+      }
+    });
+    await runCleanupStep(taskId, 'remove the task from the queue', () => taskQueueStore.removeTask(taskId));
+    await this.schedule();
+  }
+
+  private async _emitSystemEvent(taskId: string, state: ExecutionState, details: string): Promise<void> {
+    const event = new AgentEvent(Actors.SYSTEM, state, {
+      taskId,
+      step: 0,
+      maxSteps: 0,
+      details,
+    });
+    try {
+      await this._onEvent(event);
+    } catch (error) {
+      logger.error('Failed to emit task event:', error);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { resolve } from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+const rootDir = resolve(__dirname);
+const srcDir = resolve(rootDir, 'src');
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@root': rootDir,
+      '@src': srcDir,
+      // the workspace package is only built for the extension, the tests use its sources
+      '@extension/storage': resolve(rootDir, '..', 'packages', 'storage', 'index.ts'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});
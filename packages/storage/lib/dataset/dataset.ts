@@ -0,0 +1,50 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { Dataset, DatasetStorage } from './types';
+
+// Helper function to get storage key for a specific session's dataset
+const getDatasetKey = (sessionId: string) => `dataset_${sessionId}`;
+
+// Helper function to create storage for a specific session's dataset
+const getDatasetStorage = (sessionId: string) => {
+  return createStorage<Dataset | null>(getDatasetKey(sessionId), null, {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a dataset storage instance, one dataset is kept per chat session
+ */
+export function createDatasetStorage(): DatasetStorage {
+  return {
+    getDataset: async (sessionId: string): Promise<Dataset | null> => {
+      return await getDatasetStorage(sessionId).get();
+    },
+
+    appendRecords: async (sessionId: string, schema: string, records): Promise<Dataset> => {
+      const extractedAt = Date.now();
+      let dataset: Dataset | undefined;
+      await getDatasetStorage(sessionId).set(prev => {
+        dataset = {
+          id: sessionId,
+          schema,
+          records: [...(prev?.records ?? []), ...records.map(record => ({ ...record, extractedAt }))],
+          updatedAt: extractedAt,
+        };
+        return dataset;
+      });
+      if (!dataset) {
+        throw new Error(`Failed to append records to dataset ${sessionId}`);
+      }
+      return dataset;
+    },
+
+    deleteDataset: async (sessionId: string): Promise<void> => {
+      await getDatasetStorage(sessionId).set(null);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const datasetStore = createDatasetStorage();
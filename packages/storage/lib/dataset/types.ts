@@ -0,0 +1,25 @@
+// Data extracted from one page, validated against the extraction's JSON schema
+export interface DatasetRecord {
+  url: string; // Url of the page the data was extracted from
+  extractedAt: number; // Unix timestamp in milliseconds
+  data: unknown;
+}
+
+// Structured data extracted by the tasks of a chat session
+export interface Dataset {
+  id: string; // The chat session id
+  schema: string; // JSON schema of the last extraction
+  records: DatasetRecord[];
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface DatasetStorage {
+  // Get the dataset of a chat session
+  getDataset: (sessionId: string) => Promise<Dataset | null>;
+
+  // Append records to the dataset of a chat session, creating the dataset if needed
+  appendRecords: (sessionId: string, schema: string, records: Omit<DatasetRecord, 'extractedAt'>[]) => Promise<Dataset>;
+
+  // Delete the dataset of a chat session
+  deleteDataset: (sessionId: string) => Promise<void>;
+}
@@ -0,0 +1,66 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { FileAttachment, FileAttachmentStorage } from './types';
+
+// Largest file that can be attached, in bytes
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const storage = createStorage<FileAttachment[]>('file_attachments', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+// The content is kept apart from the list, so that listing the attachments does not load every file
+const getContentStorage = (id: string) => {
+  return createStorage<string>(`file_attachment_content_${id}`, '', {
+    storageEnum: StorageEnum.Local,
+  });
+};
+
+export const fileAttachmentStore: FileAttachmentStorage = {
+  ...storage,
+  async getAttachments() {
+    return (await storage.get()) || [];
+  },
+  async getAttachmentByName(name: string) {
+    const attachments = await storage.get();
+    return attachments.find(attachment => attachment.name === name.trim()) ?? null;
+  },
+  async getContent(id: string) {
+    const content = await getContentStorage(id).get();
+    if (!content) {
+      throw new Error(`Content of attached file ${id} not found`);
+    }
+    return content;
+  },
+  async addAttachment(file) {
+    // base64 encodes 3 bytes in 4 characters
+    const size = Math.floor((file.content.length * 3) / 4) - (file.content.match(/=*$/)?.[0].length ?? 0);
+    if (size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`File ${file.name} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`);
+    }
+
+    const attachment: FileAttachment = {
+      id: crypto.randomUUID(),
+      name: file.name.trim(),
+      mimeType: file.mimeType || 'application/octet-stream',
+      size,
+      createdAt: Date.now(),
+    };
+    await getContentStorage(attachment.id).set(file.content);
+
+    let replaced: FileAttachment | undefined;
+    await storage.set(prev => {
+      replaced = prev.find(existing => existing.name === attachment.name);
+      return [...prev.filter(existing => existing !== replaced), attachment];
+    });
+    if (replaced) {
+      await getContentStorage(replaced.id).set('');
+    }
+    return attachment;
+  },
+  async removeAttachment(id: string) {
+    await storage.set(prev => prev.filter(attachment => attachment.id !== id));
+    await getContentStorage(id).set('');
+  },
+};
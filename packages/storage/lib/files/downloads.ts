@@ -0,0 +1,37 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { BrowserDownload, BrowserDownloadStorage } from './types';
+
+// Helper function to create storage for a specific session's downloads
+const getDownloadsStorage = (sessionId: string) => {
+  return createStorage<BrowserDownload[]>(`browser_downloads_${sessionId}`, [], {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a browser download storage instance, downloads are listed per chat session
+ */
+export function createBrowserDownloadStorage(): BrowserDownloadStorage {
+  return {
+    getDownloads: async (sessionId: string): Promise<BrowserDownload[]> => {
+      return await getDownloadsStorage(sessionId).get();
+    },
+
+    putDownload: async (sessionId: string, download: BrowserDownload): Promise<void> => {
+      await getDownloadsStorage(sessionId).set(prev =>
+        prev.some(existing => existing.id === download.id)
+          ? prev.map(existing => (existing.id === download.id ? download : existing))
+          : [...prev, download],
+      );
+    },
+
+    deleteDownloads: async (sessionId: string): Promise<void> => {
+      await getDownloadsStorage(sessionId).set([]);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const browserDownloadStore = createBrowserDownloadStorage();
@@ -0,0 +1,39 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { SavedFile, SavedFileStorage } from './types';
+
+// Helper function to create storage for a specific session's saved files
+const getFilesStorage = (sessionId: string) => {
+  return createStorage<SavedFile[]>(`saved_files_${sessionId}`, [], {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a saved file storage instance, files are listed per chat session
+ */
+export function createSavedFileStorage(): SavedFileStorage {
+  return {
+    getFiles: async (sessionId: string): Promise<SavedFile[]> => {
+      return await getFilesStorage(sessionId).get();
+    },
+
+    addFile: async (sessionId: string, file): Promise<SavedFile> => {
+      const savedFile: SavedFile = {
+        ...file,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+      };
+      await getFilesStorage(sessionId).set(prev => [...prev, savedFile]);
+      return savedFile;
+    },
+
+    deleteFiles: async (sessionId: string): Promise<void> => {
+      await getFilesStorage(sessionId).set([]);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const savedFileStore = createSavedFileStorage();
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './outputs';
+export * from './files';
+export * from './attachments';
+export * from './downloads';
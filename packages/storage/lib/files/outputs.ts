@@ -0,0 +1,33 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { TaskOutput, TaskOutputStorage } from './types';
+
+// Helper function to create storage for a specific session's task outputs
+const getOutputsStorage = (sessionId: string) => {
+  return createStorage<TaskOutput[]>(`task_outputs_${sessionId}`, [], {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a task output storage instance, outputs are kept per chat session
+ */
+export function createTaskOutputStorage(): TaskOutputStorage {
+  return {
+    getOutputs: async (sessionId: string): Promise<TaskOutput[]> => {
+      return await getOutputsStorage(sessionId).get();
+    },
+
+    addOutput: async (sessionId: string, output): Promise<void> => {
+      await getOutputsStorage(sessionId).set(prev => [...prev, { ...output, createdAt: Date.now() }]);
+    },
+
+    deleteOutputs: async (sessionId: string): Promise<void> => {
+      await getOutputsStorage(sessionId).set([]);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const taskOutputStore = createTaskOutputStorage();
@@ -0,0 +1,111 @@
+import type { BaseStorage } from '../base/types';
+
+export enum FileFormatEnum {
+  Markdown = 'md',
+  Json = 'json',
+  Csv = 'csv',
+}
+
+// Kind of result a task produced, exported together with the session's dataset
+export enum TaskOutputKindEnum {
+  FinalAnswer = 'final_answer', // Text of the done action
+  ExtractedContent = 'extracted_content', // Result of the extract_content action
+  CachedContent = 'cached_content', // Findings cached with the cache_content action
+}
+
+export interface TaskOutput {
+  kind: TaskOutputKindEnum;
+  content: string;
+  url: string | null; // Url of the page the agent was on, null if unknown
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+// A file downloaded with chrome.downloads
+export interface SavedFile {
+  id: string;
+  filename: string; // Path relative to the downloads folder
+  format: FileFormatEnum;
+  size: number; // Size in bytes
+  downloadId: number; // Id of the chrome.downloads item
+  savedBy: 'agent' | 'user'; // Whether the navigator saved the file or the user exported the session
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+// A file the user attached in the side panel, the navigator uploads it to file inputs by its name
+export interface FileAttachment {
+  id: string;
+  name: string; // File name, unique among the attachments
+  mimeType: string;
+  size: number; // Size in bytes
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+// State of a download, same values as chrome.downloads.State
+export enum DownloadStateEnum {
+  InProgress = 'in_progress',
+  Complete = 'complete',
+  Interrupted = 'interrupted',
+}
+
+// A file the browser downloaded while a task was running, e.g. after the navigator clicked a download link
+export interface BrowserDownload {
+  id: number; // Id of the chrome.downloads item
+  name: string; // File name without the folders
+  path: string; // Absolute path of the file, empty until the browser chose it
+  url: string; // Url the file was downloaded from
+  mimeType: string;
+  size: number; // Size in bytes, 0 while unknown
+  state: DownloadStateEnum;
+  error: string | null; // Reason of the interruption
+  startedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface TaskOutputStorage {
+  // Get the outputs of the tasks of a chat session, oldest first
+  getOutputs: (sessionId: string) => Promise<TaskOutput[]>;
+
+  // Add an output to a chat session
+  addOutput: (sessionId: string, output: Omit<TaskOutput, 'createdAt'>) => Promise<void>;
+
+  // Delete the outputs of a chat session
+  deleteOutputs: (sessionId: string) => Promise<void>;
+}
+
+export interface SavedFileStorage {
+  // Get the files saved in a chat session, oldest first
+  getFiles: (sessionId: string) => Promise<SavedFile[]>;
+
+  // Add a saved file to a chat session
+  addFile: (sessionId: string, file: Omit<SavedFile, 'id' | 'createdAt'>) => Promise<SavedFile>;
+
+  // Delete the file list of a chat session, the downloaded files are kept
+  deleteFiles: (sessionId: string) => Promise<void>;
+}
+
+export type FileAttachmentStorage = BaseStorage<FileAttachment[]> & {
+  // Get the attached files, oldest first
+  getAttachments: () => Promise<FileAttachment[]>;
+
+  // Get an attached file by its name, null if there is none
+  getAttachmentByName: (name: string) => Promise<FileAttachment | null>;
+
+  // Get the base64 encoded content of an attached file
+  getContent: (id: string) => Promise<string>;
+
+  // Attach a file, replaces the attached file with the same name
+  addAttachment: (file: { name: string; mimeType: string; content: string }) => Promise<FileAttachment>;
+
+  // Remove an attached file and its content
+  removeAttachment: (id: string) => Promise<void>;
+};
+
+export interface BrowserDownloadStorage {
+  // Get the downloads of a chat session, oldest first
+  getDownloads: (sessionId: string) => Promise<BrowserDownload[]>;
+
+  // Add a download to a chat session, or update it if it is already listed
+  putDownload: (sessionId: string, download: BrowserDownload) => Promise<void>;
+
+  // Delete the download list of a chat session, the downloaded files are kept
+  deleteDownloads: (sessionId: string) => Promise<void>;
+}
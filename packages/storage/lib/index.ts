@@ -2,3 +2,9 @@ export type { BaseStorage } from './base/types';
 export * from './settings';
 export * from './chat';
 export * from './profile';
+export * from './task';
+export * from './secrets';
+export * from './macro';
+export * from './usage';
+export * from './dataset';
+export * from './files';
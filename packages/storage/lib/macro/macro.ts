@@ -0,0 +1,43 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { Macro, MacroStorage } from './types';
+
+// Helper function to get storage key for a specific session's macro
+const getMacroKey = (sessionId: string) => `macro_${sessionId}`;
+
+// Helper function to create storage for a specific session's macro
+const getMacroStorage = (sessionId: string) => {
+  return createStorage<Macro | null>(getMacroKey(sessionId), null, {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a macro storage instance, one macro is kept per chat session
+ */
+export function createMacroStorage(): MacroStorage {
+  return {
+    getMacro: async (sessionId: string): Promise<Macro | null> => {
+      return await getMacroStorage(sessionId).get();
+    },
+
+    saveMacro: async (sessionId: string, task: string, actions): Promise<Macro> => {
+      const macro: Macro = {
+        id: sessionId,
+        task,
+        actions,
+        createdAt: Date.now(),
+      };
+      await getMacroStorage(sessionId).set(macro);
+      return macro;
+    },
+
+    deleteMacro: async (sessionId: string): Promise<void> => {
+      await getMacroStorage(sessionId).set(null);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const macroStore = createMacroStorage();
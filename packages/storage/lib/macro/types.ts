@@ -0,0 +1,36 @@
+// Element an action was run on, used to find the same element again when the macro is replayed
+export interface MacroElement {
+  tagName: string;
+  xpath: string;
+  highlightIndex: number | null;
+  entireParentBranchPath: string[];
+  attributes: Record<string, string>;
+  shadowRoot: boolean;
+  cssSelector: string | null;
+}
+
+export interface MacroAction {
+  name: string; // Action name, e.g. click_element
+  args: Record<string, unknown>; // Action arguments as output by the navigator
+  element: MacroElement | null; // Target element, null if the action has no index argument
+  url: string; // Url of the page the action was run on
+}
+
+// Trace of the actions of a successful task, replayed without calling the LLM
+export interface Macro {
+  id: string; // The chat session id the macro was recorded in
+  task: string;
+  actions: MacroAction[];
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+export interface MacroStorage {
+  // Get the macro recorded in a chat session
+  getMacro: (sessionId: string) => Promise<Macro | null>;
+
+  // Save the macro of a chat session, replacing the previous one
+  saveMacro: (sessionId: string, task: string, actions: MacroAction[]) => Promise<Macro>;
+
+  // Delete the macro of a chat session
+  deleteMacro: (sessionId: string) => Promise<void>;
+}
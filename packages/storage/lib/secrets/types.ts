@@ -0,0 +1,54 @@
+// A value encrypted with AES-GCM, both fields are base64 encoded
+export interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+export interface StoredSecret {
+  id: string;
+  name: string; // Placeholder name used in <secret>name</secret>, unique in the vault
+  domain: string; // The secret is only filled in on this domain and its subdomains
+  value: EncryptedValue;
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+export interface SecretVault {
+  salt: string; // Base64 encoded salt used to derive the key from the passphrase
+  verifier: EncryptedValue; // Known text encrypted with the key, used to check the passphrase
+  secrets: StoredSecret[];
+}
+
+// Secret without its value, safe to show in the UI
+export type SecretMetadata = Omit<StoredSecret, 'value'>;
+
+export interface SecretVaultStorage {
+  // Whether a passphrase has been set
+  isInitialized: () => Promise<boolean>;
+
+  // Whether the vault is unlocked in the current browser session
+  isUnlocked: () => Promise<boolean>;
+
+  // Unlock the vault, the first passphrase creates the vault
+  unlock: (passphrase: string) => Promise<void>;
+
+  // Forget the key, secrets can not be read until the vault is unlocked again
+  lock: () => Promise<void>;
+
+  // Get the secrets without their values
+  getSecretsMetadata: () => Promise<SecretMetadata[]>;
+
+  // Add a secret, the vault must be unlocked
+  addSecret: (secret: { name: string; domain: string; value: string }) => Promise<SecretMetadata>;
+
+  // Remove a secret
+  removeSecret: (secretId: string) => Promise<void>;
+
+  // Get the values of all secrets keyed by name, empty if the vault is locked
+  getAllSecretValues: () => Promise<Record<string, string>>;
+
+  // Get the values of the secrets for a hostname keyed by name, empty if the vault is locked
+  getSecretValuesForDomain: (hostname: string) => Promise<Record<string, string>>;
+
+  // Delete the vault and all its secrets
+  reset: () => Promise<void>;
+}
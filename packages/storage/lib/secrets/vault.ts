@@ -0,0 +1,153 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import { decrypt, deriveKey, encrypt, exportKey, generateSalt, importKey } from './crypto';
+import type { SecretMetadata, SecretVault, SecretVaultStorage, StoredSecret } from './types';
+
+// Key for storing the encrypted secrets
+const SECRET_VAULT_KEY = 'secret_vault';
+// Key for storing the unlocked key, session storage is kept in memory and cleared when the browser closes
+const SECRET_VAULT_SESSION_KEY = 'secret_vault_key';
+// Known text used to check the passphrase
+const VERIFIER_TEXT = 'secret-vault';
+
+const vaultStorage = createStorage<SecretVault | null>(SECRET_VAULT_KEY, null, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+const sessionKeyStorage = createStorage<string | null>(SECRET_VAULT_SESSION_KEY, null, {
+  storageEnum: StorageEnum.Session,
+  liveUpdate: true,
+});
+
+// Helper function to check if a hostname is the secret's domain or one of its subdomains
+const matchesDomain = (hostname: string, domain: string): boolean => {
+  const normalizedHost = hostname.toLowerCase();
+  const normalizedDomain = domain.trim().toLowerCase();
+  return normalizedHost === normalizedDomain || normalizedHost.endsWith(`.${normalizedDomain}`);
+};
+
+// Helper function to strip the encrypted value
+const toMetadata = (secret: StoredSecret): SecretMetadata => ({
+  id: secret.id,
+  name: secret.name,
+  domain: secret.domain,
+  createdAt: secret.createdAt,
+});
+
+// Helper function to get the key of the unlocked vault
+const getUnlockedKey = async (): Promise<CryptoKey | null> => {
+  const rawKey = await sessionKeyStorage.get();
+  return rawKey ? importKey(rawKey) : null;
+};
+
+// Helper function to decrypt the secrets matching a filter, keyed by name
+const decryptSecrets = async (filter: (secret: StoredSecret) => boolean): Promise<Record<string, string>> => {
+  const vault = await vaultStorage.get();
+  const key = await getUnlockedKey();
+  if (!vault || !key) {
+    return {};
+  }
+  const values: Record<string, string> = {};
+  for (const secret of vault.secrets.filter(filter)) {
+    values[secret.name] = await decrypt(key, secret.value);
+  }
+  return values;
+};
+
+/**
+ * Creates a secret vault storage instance. Secret values are encrypted with a key derived from a passphrase,
+ * only names and domains are stored in plain text.
+ */
+export function createSecretVaultStorage(): SecretVaultStorage {
+  return {
+    isInitialized: async (): Promise<boolean> => {
+      return (await vaultStorage.get()) !== null;
+    },
+
+    isUnlocked: async (): Promise<boolean> => {
+      return (await sessionKeyStorage.get()) !== null;
+    },
+
+    unlock: async (passphrase: string): Promise<void> => {
+      if (!passphrase) {
+        throw new Error('Passphrase can not be empty');
+      }
+
+      const vault = await vaultStorage.get();
+      if (!vault) {
+        // the first passphrase creates the vault
+        const salt = generateSalt();
+        const key = await deriveKey(passphrase, salt);
+        await vaultStorage.set({ salt, verifier: await encrypt(key, VERIFIER_TEXT), secrets: [] });
+        await sessionKeyStorage.set(await exportKey(key));
+        return;
+      }
+
+      const key = await deriveKey(passphrase, vault.salt);
+      try {
+        if ((await decrypt(key, vault.verifier)) !== VERIFIER_TEXT) {
+          throw new Error('Verifier mismatch');
+        }
+      } catch {
+        throw new Error('Wrong passphrase');
+      }
+      await sessionKeyStorage.set(await exportKey(key));
+    },
+
+    lock: async (): Promise<void> => {
+      await sessionKeyStorage.set(null);
+    },
+
+    getSecretsMetadata: async (): Promise<SecretMetadata[]> => {
+      const vault = await vaultStorage.get();
+      return vault ? vault.secrets.map(toMetadata) : [];
+    },
+
+    addSecret: async ({ name, domain, value }): Promise<SecretMetadata> => {
+      const key = await getUnlockedKey();
+      if (!key) {
+        throw new Error('Secret vault is locked');
+      }
+      const vault = await vaultStorage.get();
+      if (!vault) {
+        throw new Error('Secret vault is not initialized');
+      }
+      if (vault.secrets.some(secret => secret.name === name)) {
+        throw new Error(`A secret named ${name} already exists`);
+      }
+
+      const newSecret: StoredSecret = {
+        id: crypto.randomUUID(),
+        name,
+        domain: domain.trim().toLowerCase(),
+        value: await encrypt(key, value),
+        createdAt: Date.now(),
+      };
+      await vaultStorage.set(prev => (prev ? { ...prev, secrets: [...prev.secrets, newSecret] } : prev));
+      return toMetadata(newSecret);
+    },
+
+    removeSecret: async (secretId: string): Promise<void> => {
+      await vaultStorage.set(prev =>
+        prev ? { ...prev, secrets: prev.secrets.filter(secret => secret.id !== secretId) } : prev,
+      );
+    },
+
+    getAllSecretValues: async (): Promise<Record<string, string>> => {
+      return decryptSecrets(() => true);
+    },
+
+    getSecretValuesForDomain: async (hostname: string): Promise<Record<string, string>> => {
+      return decryptSecrets(secret => matchesDomain(hostname, secret.domain));
+    },
+
+    reset: async (): Promise<void> => {
+      await vaultStorage.set(null);
+      await sessionKeyStorage.set(null);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const secretVaultStore = createSecretVaultStorage();
@@ -0,0 +1,80 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// A rule that makes the navigator ask the user before running matching actions
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  actions: string[]; // Action names the rule applies to, empty for all actions
+  labels: string[]; // Keywords matched against the text of the target element, empty for any element
+  domains: string[]; // Domains the rule applies to, including their subdomains, empty for any domain
+  enabled: boolean;
+}
+
+// Interface for approval settings configuration
+export interface ApprovalSettingsConfig {
+  enabled: boolean;
+  rules: ApprovalRule[];
+}
+
+export type ApprovalSettingsStorage = BaseStorage<ApprovalSettingsConfig> & {
+  updateSettings: (settings: Partial<ApprovalSettingsConfig>) => Promise<void>;
+  getSettings: () => Promise<ApprovalSettingsConfig>;
+  addRule: (rule: Omit<ApprovalRule, 'id'>) => Promise<ApprovalRule>;
+  updateRule: (ruleId: string, rule: Partial<Omit<ApprovalRule, 'id'>>) => Promise<void>;
+  removeRule: (ruleId: string) => Promise<void>;
+  resetToDefaults: () => Promise<void>;
+};
+
+// Default settings
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettingsConfig = {
+  enabled: true,
+  rules: [
+    {
+      id: 'default-purchases-and-deletions',
+      name: 'Purchases and deletions',
+      actions: ['click_element'],
+      labels: ['buy', 'place order', 'checkout', 'pay now', 'submit payment', 'delete'],
+      domains: [],
+      enabled: true,
+    },
+  ],
+};
+
+const storage = createStorage<ApprovalSettingsConfig>('approval-settings', DEFAULT_APPROVAL_SETTINGS, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const approvalSettingsStore: ApprovalSettingsStorage = {
+  ...storage,
+  async updateSettings(settings: Partial<ApprovalSettingsConfig>) {
+    const currentSettings = (await storage.get()) || DEFAULT_APPROVAL_SETTINGS;
+    await storage.set({
+      ...currentSettings,
+      ...settings,
+    });
+  },
+  async getSettings() {
+    const settings = await storage.get();
+    return { ...DEFAULT_APPROVAL_SETTINGS, ...settings };
+  },
+  async addRule(rule: Omit<ApprovalRule, 'id'>) {
+    const newRule: ApprovalRule = { ...rule, id: crypto.randomUUID() };
+    await storage.set(prev => ({ ...prev, rules: [...prev.rules, newRule] }));
+    return newRule;
+  },
+  async updateRule(ruleId: string, rule: Partial<Omit<ApprovalRule, 'id'>>) {
+    await storage.set(prev => ({
+      ...prev,
+      rules: prev.rules.map(r => (r.id === ruleId ? { ...r, ...rule } : r)),
+    }));
+  },
+  async removeRule(ruleId: string) {
+    await storage.set(prev => ({ ...prev, rules: prev.rules.filter(r => r.id !== ruleId) }));
+  },
+  async resetToDefaults() {
+    await storage.set(DEFAULT_APPROVAL_SETTINGS);
+  },
+};
@@ -0,0 +1,99 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// Interface for the settings of the browser the agent controls
+export interface BrowserSettingsConfig {
+  highlightElements: boolean; // Mark the interactive elements of the pages with their indices
+  viewportExpansion: number; // Pixels around the viewport whose elements are included, -1 for the whole page
+  includeDynamicAttributes: boolean; // Use dynamic attributes (e.g. data-*) in the CSS selectors of the elements
+  waitBetweenActions: number; // Seconds to wait after each action of a step
+  maximumWaitPageLoadTime: number; // Seconds to wait at most for a page to load
+  homePageUrl: string; // Page opened when there is no tab to work in
+}
+
+export type BrowserSettingsErrors = Partial<Record<keyof BrowserSettingsConfig, string>>;
+
+export type BrowserSettingsStorage = BaseStorage<BrowserSettingsConfig> & {
+  updateSettings: (settings: Partial<BrowserSettingsConfig>) => Promise<void>;
+  getSettings: () => Promise<BrowserSettingsConfig>;
+  resetToDefaults: () => Promise<void>;
+};
+
+// Default settings, the same as the defaults of the browser context
+export const DEFAULT_BROWSER_SETTINGS: BrowserSettingsConfig = {
+  highlightElements: true,
+  viewportExpansion: 500,
+  includeDynamicAttributes: true,
+  waitBetweenActions: 1.0,
+  maximumWaitPageLoadTime: 5.0,
+  homePageUrl: 'https://www.google.com',
+};
+
+/**
+ * Validate browser settings
+ * @param settings - The settings to validate, missing settings are not checked
+ * @returns The error message of each invalid setting, empty when all settings are valid
+ */
+export function validateBrowserSettings(settings: Partial<BrowserSettingsConfig>): BrowserSettingsErrors {
+  const errors: BrowserSettingsErrors = {};
+  const { viewportExpansion, waitBetweenActions, maximumWaitPageLoadTime, homePageUrl } = settings;
+
+  if (
+    viewportExpansion !== undefined &&
+    (!Number.isInteger(viewportExpansion) || viewportExpansion < -1 || viewportExpansion > 10000)
+  ) {
+    errors.viewportExpansion = 'Viewport expansion must be a whole number from 0 to 10000, or -1 for the whole page';
+  }
+  if (
+    waitBetweenActions !== undefined &&
+    (!Number.isFinite(waitBetweenActions) || waitBetweenActions < 0 || waitBetweenActions > 30)
+  ) {
+    errors.waitBetweenActions = 'Wait between actions must be from 0 to 30 seconds';
+  }
+  if (
+    maximumWaitPageLoadTime !== undefined &&
+    (!Number.isFinite(maximumWaitPageLoadTime) || maximumWaitPageLoadTime < 1 || maximumWaitPageLoadTime > 120)
+  ) {
+    errors.maximumWaitPageLoadTime = 'Maximum page load wait must be from 1 to 120 seconds';
+  }
+  if (homePageUrl !== undefined) {
+    let protocol = '';
+    try {
+      protocol = new URL(homePageUrl).protocol;
+    } catch {
+      // invalid url, reported below
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      errors.homePageUrl = 'Home page must be an http or https URL';
+    }
+  }
+  return errors;
+}
+
+const storage = createStorage<BrowserSettingsConfig>('browser-settings', DEFAULT_BROWSER_SETTINGS, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const browserSettingsStore: BrowserSettingsStorage = {
+  ...storage,
+  async updateSettings(settings: Partial<BrowserSettingsConfig>) {
+    const errors = Object.values(validateBrowserSettings(settings));
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    const currentSettings = (await storage.get()) || DEFAULT_BROWSER_SETTINGS;
+    await storage.set({
+      ...currentSettings,
+      ...settings,
+    });
+  },
+  async getSettings() {
+    const settings = await storage.get();
+    return { ...DEFAULT_BROWSER_SETTINGS, ...settings };
+  },
+  async resetToDefaults() {
+    await storage.set(DEFAULT_BROWSER_SETTINGS);
+  },
+};
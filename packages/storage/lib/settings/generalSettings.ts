@@ -1,6 +1,7 @@
 import { StorageEnum } from '../base/enums';
 import { createStorage } from '../base/base';
 import type { BaseStorage } from '../base/types';
+import { DialogPolicyEnum, HighlightModeEnum, PageStateProviderEnum, TabIsolationEnum } from './types';
 
 // Interface for general settings configuration
 export interface GeneralSettingsConfig {
@@ -10,6 +11,17 @@ export interface GeneralSettingsConfig {
   useVision: boolean;
   useVisionForPlanner: boolean;
   planningInterval: number;
+  sendPageChangesOnly: boolean; // Keep the full page state in the navigator's memory and send only its changes
+  pageStateProvider: PageStateProviderEnum; // How the interactive elements of a page are found
+  highlightMode: HighlightModeEnum; // Where the interactive elements are marked with their indices
+  dialogPolicy: DialogPolicyEnum; // How the native dialogs of the pages are handled
+  captureNetworkResponses: boolean; // Keep the XHR and fetch responses of the pages for the navigator to read
+  tabIsolation: TabIsolationEnum; // Where the tabs of a task are kept
+  closeTabsOnCompletion: boolean; // Close the tab group or window of a task when it is done, instead of collapsing it
+  closeOpenedTabsOnCompletion: boolean; // Close the tabs the agent opened when a task is done
+  maxConcurrentTasks: number;
+  allowedDomains: string[]; // Domain glob patterns the agent may visit, empty for all domains
+  deniedDomains: string[]; // Domain glob patterns the agent must not visit
 }
 
 export type GeneralSettingsStorage = BaseStorage<GeneralSettingsConfig> & {
@@ -26,6 +38,17 @@ export const DEFAULT_GENERAL_SETTINGS: GeneralSettingsConfig = {
   useVision: false,
   useVisionForPlanner: false,
   planningInterval: 3,
+  sendPageChangesOnly: false,
+  pageStateProvider: PageStateProviderEnum.DomTree,
+  highlightMode: HighlightModeEnum.Page,
+  dialogPolicy: DialogPolicyEnum.Navigator,
+  captureNetworkResponses: false,
+  tabIsolation: TabIsolationEnum.None,
+  closeTabsOnCompletion: false,
+  closeOpenedTabsOnCompletion: false,
+  maxConcurrentTasks: 1,
+  allowedDomains: [],
+  deniedDomains: [],
 };
 
 const storage = createStorage<GeneralSettingsConfig>('general-settings', DEFAULT_GENERAL_SETTINGS, {
@@ -44,7 +67,8 @@ export const generalSettingsStore: GeneralSettingsStorage = {
   },
   async getSettings() {
     const settings = await storage.get();
-    return settings || DEFAULT_GENERAL_SETTINGS;
+    // fill in settings added after the stored settings were saved
+    return { ...DEFAULT_GENERAL_SETTINGS, ...settings };
   },
   async resetToDefaults() {
     await storage.set(DEFAULT_GENERAL_SETTINGS);
@@ -2,3 +2,7 @@ export * from './types';
 export * from './llmProviders';
 export * from './agentModels';
 export * from './generalSettings';
+export * from './browserSettings';
+export * from './stealthSettings';
+export * from './approvalSettings';
+export * from './modelPrices';
@@ -0,0 +1,61 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// Price of a model in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Prices keyed by model name, models without a price are counted as free
+export type ModelPricesConfig = Record<string, ModelPrice>;
+
+export type ModelPriceStorage = BaseStorage<ModelPricesConfig> & {
+  getPrices: () => Promise<ModelPricesConfig>;
+  setPrice: (modelName: string, price: ModelPrice) => Promise<void>;
+  removePrice: (modelName: string) => Promise<void>;
+  resetToDefaults: () => Promise<void>;
+};
+
+// Default prices of the built-in models
+export const DEFAULT_MODEL_PRICES: ModelPricesConfig = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  o1: { input: 15, output: 60 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'claude-3-7-sonnet-latest': { input: 3, output: 15 },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'grok-2': { input: 2, output: 10 },
+  'grok-2-vision': { input: 2, output: 10 },
+};
+
+const storage = createStorage<ModelPricesConfig>('model-prices', DEFAULT_MODEL_PRICES, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const modelPriceStore: ModelPriceStorage = {
+  ...storage,
+  async getPrices() {
+    return (await storage.get()) || DEFAULT_MODEL_PRICES;
+  },
+  async setPrice(modelName: string, price: ModelPrice) {
+    await storage.set(prev => ({ ...prev, [modelName]: price }));
+  },
+  async removePrice(modelName: string) {
+    await storage.set(prev => {
+      const next = { ...prev };
+      delete next[modelName];
+      return next;
+    });
+  },
+  async resetToDefaults() {
+    await storage.set(DEFAULT_MODEL_PRICES);
+  },
+};
@@ -0,0 +1,90 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+import { StealthPatchEnum } from './types';
+
+// Interface for the stealth profile, how the agent hides that the pages are automated
+export interface StealthSettingsConfig {
+  enabled: boolean; // Apply the profile to the pages
+  patches: StealthPatchEnum[]; // Overrides injected into the pages
+  disabledDomains: string[]; // Domain glob patterns the profile is not applied to, e.g. *.internal.example.com
+  userAgent: string; // Empty to keep the browser's user agent
+  locale: string; // e.g. en-US, empty to keep the browser's locale
+  timezoneId: string; // e.g. Europe/Berlin, empty to keep the browser's timezone
+}
+
+export type StealthSettingsErrors = Partial<Record<keyof StealthSettingsConfig, string>>;
+
+export type StealthSettingsStorage = BaseStorage<StealthSettingsConfig> & {
+  updateSettings: (settings: Partial<StealthSettingsConfig>) => Promise<void>;
+  getSettings: () => Promise<StealthSettingsConfig>;
+  resetToDefaults: () => Promise<void>;
+};
+
+// Default settings, the patches the pages always got before the profile was configurable
+export const DEFAULT_STEALTH_SETTINGS: StealthSettingsConfig = {
+  enabled: true,
+  patches: [
+    StealthPatchEnum.Webdriver,
+    StealthPatchEnum.ChromeRuntime,
+    StealthPatchEnum.Permissions,
+    StealthPatchEnum.OpenShadowRoots,
+  ],
+  disabledDomains: [],
+  userAgent: '',
+  locale: '',
+  timezoneId: '',
+};
+
+/**
+ * Validate stealth settings
+ * @param settings - The settings to validate, missing settings are not checked
+ * @returns The error message of each invalid setting, empty when all settings are valid
+ */
+export function validateStealthSettings(settings: Partial<StealthSettingsConfig>): StealthSettingsErrors {
+  const errors: StealthSettingsErrors = {};
+  const { locale, timezoneId } = settings;
+
+  if (locale) {
+    try {
+      Intl.getCanonicalLocales(locale);
+    } catch {
+      errors.locale = `${locale} is not a valid locale, e.g. en-US`;
+    }
+  }
+  if (timezoneId) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezoneId });
+    } catch {
+      errors.timezoneId = `${timezoneId} is not a valid timezone, e.g. Europe/Berlin`;
+    }
+  }
+  return errors;
+}
+
+const storage = createStorage<StealthSettingsConfig>('stealth-settings', DEFAULT_STEALTH_SETTINGS, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const stealthSettingsStore: StealthSettingsStorage = {
+  ...storage,
+  async updateSettings(settings: Partial<StealthSettingsConfig>) {
+    const errors = Object.values(validateStealthSettings(settings));
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    const currentSettings = (await storage.get()) || DEFAULT_STEALTH_SETTINGS;
+    await storage.set({
+      ...currentSettings,
+      ...settings,
+    });
+  },
+  async getSettings() {
+    const settings = await storage.get();
+    return { ...DEFAULT_STEALTH_SETTINGS, ...settings };
+  },
+  async resetToDefaults() {
+    await storage.set(DEFAULT_STEALTH_SETTINGS);
+  },
+};
@@ -5,6 +5,52 @@ export enum AgentNameEnum {
   Validator = 'validator',
 }
 
+// How a page is turned into the list of interactive elements the agents see
+export enum PageStateProviderEnum {
+  DomTree = 'dom_tree', // Walk the DOM and detect interactive elements with heuristics
+  Accessibility = 'accessibility', // Use the roles, names and states of the browser's accessibility tree
+}
+
+// Where the interactive elements are marked with their indices
+export enum HighlightModeEnum {
+  Page = 'page', // Draw overlays into the page, they are visible in the screenshots too
+  Screenshot = 'screenshot', // Draw the marks onto the screenshots sent to the model, the page is left untouched
+}
+
+// What happens to the native dialogs (alert, confirm, prompt, beforeunload) the pages open
+export enum DialogPolicyEnum {
+  Navigator = 'navigator', // Keep the dialog open until the navigator handles it with the handle_dialog action
+  Accept = 'accept', // Accept every dialog right away, for unattended runs
+  Dismiss = 'dismiss', // Dismiss every dialog right away, for unattended runs
+}
+
+// Where the tabs of a task are kept, so that the agent does not take over the tab the user is on
+export enum TabIsolationEnum {
+  None = 'none', // Work in the tab the task was started from, and in the tabs of its window
+  TabGroup = 'tab_group', // Work in a tab group of the task, its tabs are never activated
+  Window = 'window', // Work in a separate window of the task
+}
+
+// Device the pages of a task are emulated as
+export enum DeviceEmulationEnum {
+  None = 'none', // Leave the tab as it is
+  Desktop = 'desktop', // Desktop viewport of the browser window size
+  IPhone15Pro = 'iphone_15_pro',
+  Pixel5 = 'pixel_5',
+  GalaxyS9 = 'galaxy_s9',
+  IPadMini = 'ipad_mini',
+}
+
+// Overrides injected into the pages so that they can not tell they are automated
+export enum StealthPatchEnum {
+  Webdriver = 'webdriver', // Hide navigator.webdriver
+  ChromeRuntime = 'chrome_runtime', // Add window.chrome.runtime like a regular browser tab
+  Permissions = 'permissions', // Answer notification permission queries like a regular browser tab
+  Languages = 'languages', // Report the locale of the profile (or en-US) as navigator.languages
+  Plugins = 'plugins', // Report a non-empty navigator.plugins
+  OpenShadowRoots = 'open_shadow_roots', // Force shadow roots open, so the elements in closed shadow roots are found
+}
+
 // Provider type, types before CustomOpenAI are built-in providers, CustomOpenAI is a custom provider
 // For built-in providers, we will create ChatModel instances with its respective LangChain ChatModel classes
 // For custom providers, we will create ChatModel instances with the ChatOpenAI class
@@ -0,0 +1,38 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { TaskCheckpoint, TaskCheckpointStorage } from './types';
+
+// Helper function to get storage key for a specific task's checkpoint
+const getCheckpointKey = (taskId: string) => `task_checkpoint_${taskId}`;
+
+// Helper function to create storage for a specific task's checkpoint
+const getCheckpointStorage = (taskId: string) => {
+  return createStorage<TaskCheckpoint | null>(getCheckpointKey(taskId), null, {
+    storageEnum: StorageEnum.Local,
+  });
+};
+
+/**
+ * Creates a task checkpoint storage instance, one checkpoint is kept per task
+ */
+export function createTaskCheckpointStorage(): TaskCheckpointStorage {
+  return {
+    getCheckpoint: async (taskId: string): Promise<TaskCheckpoint | null> => {
+      return await getCheckpointStorage(taskId).get();
+    },
+
+    saveCheckpoint: async (checkpoint): Promise<void> => {
+      await getCheckpointStorage(checkpoint.taskId).set({
+        ...checkpoint,
+        updatedAt: Date.now(),
+      });
+    },
+
+    removeCheckpoint: async (taskId: string): Promise<void> => {
+      await getCheckpointStorage(taskId).set(null);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const taskCheckpointStore = createTaskCheckpointStorage();
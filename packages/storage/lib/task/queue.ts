@@ -0,0 +1,94 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import { type TaskQueueStorage, type TaskRecord, TaskStatusEnum } from './types';
+
+// Key for storing the background task queue
+const TASK_QUEUE_KEY = 'task_queue';
+
+const taskQueueStorage = createStorage<TaskRecord[]>(TASK_QUEUE_KEY, [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+// Helper function to get current timestamp in milliseconds
+const getCurrentTimestamp = (): number => Date.now();
+
+/**
+ * Creates a task queue storage instance, the queue survives service worker restarts
+ */
+export function createTaskQueueStorage(): TaskQueueStorage {
+  return {
+    getAllTasks: async (): Promise<TaskRecord[]> => {
+      return await taskQueueStorage.get();
+    },
+
+    getTask: async (taskId: string): Promise<TaskRecord | null> => {
+      const tasks = await taskQueueStorage.get();
+      return tasks.find(task => task.id === taskId) ?? null;
+    },
+
+    enqueueTask: async (task): Promise<TaskRecord> => {
+      const currentTime = getCurrentTimestamp();
+      const newTask: TaskRecord = {
+        ...task,
+        status: TaskStatusEnum.Pending,
+        createdAt: currentTime,
+        updatedAt: currentTime,
+      };
+
+      await taskQueueStorage.set(prevTasks => [...prevTasks.filter(t => t.id !== task.id), newTask]);
+      return newTask;
+    },
+
+    updateTask: async (taskId: string, update): Promise<TaskRecord> => {
+      let updatedTask: TaskRecord | undefined;
+
+      await taskQueueStorage.set(prevTasks => {
+        return prevTasks.map(task => {
+          if (task.id === taskId) {
+            updatedTask = {
+              ...task,
+              ...update,
+              updatedAt: getCurrentTimestamp(),
+            };
+            return updatedTask;
+          }
+          return task;
+        });
+      });
+
+      if (!updatedTask) {
+        throw new Error(`Task with ID ${taskId} not found`);
+      }
+      return updatedTask;
+    },
+
+    removeTask: async (taskId: string): Promise<void> => {
+      await taskQueueStorage.set(prevTasks => prevTasks.filter(task => task.id !== taskId));
+    },
+
+    requeueRunningTasks: async (): Promise<TaskRecord[]> => {
+      const requeued: TaskRecord[] = [];
+
+      await taskQueueStorage.set(prevTasks => {
+        return prevTasks.map(task => {
+          if (task.status === TaskStatusEnum.Running) {
+            const updated = {
+              ...task,
+              status: TaskStatusEnum.Pending,
+              updatedAt: getCurrentTimestamp(),
+            };
+            requeued.push(updated);
+            return updated;
+          }
+          return task;
+        });
+      });
+
+      return requeued;
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const taskQueueStore = createTaskQueueStorage();
@@ -0,0 +1,89 @@
+import type { MacroAction } from '../macro/types';
+import type { DeviceEmulationEnum } from '../settings/types';
+
+// Status of a task in the background queue
+export enum TaskStatusEnum {
+  Pending = 'pending',
+  Running = 'running',
+}
+
+export interface TaskRecord {
+  id: string; // Task id, the same as the chat session id in the side panel
+  task: string; // Raw task description (or the follow-up task description)
+  tabId: number; // Tab the task was started from and should run on
+  priority: number; // Higher priority tasks are started first
+  status: TaskStatusEnum;
+  isFollowUp: boolean; // Whether the task is a follow-up to a previous task with the same id
+  fromCheckpoint: boolean; // Whether the task should resume from its last checkpoint
+  replayOf: string | null; // Id of the macro to replay instead of asking the LLM, null for normal tasks
+  device?: DeviceEmulationEnum; // Device the pages are emulated as, missing in tasks queued before it was added
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface TaskQueueStorage {
+  // Get all queued and running tasks
+  getAllTasks: () => Promise<TaskRecord[]>;
+
+  // Get a specific task
+  getTask: (taskId: string) => Promise<TaskRecord | null>;
+
+  // Add a task to the queue, replacing any existing task with the same id
+  enqueueTask: (task: Omit<TaskRecord, 'status' | 'createdAt' | 'updatedAt'>) => Promise<TaskRecord>;
+
+  // Update fields of a queued task
+  updateTask: (
+    taskId: string,
+    update: Partial<Pick<TaskRecord, 'priority' | 'status' | 'fromCheckpoint'>>,
+  ) => Promise<TaskRecord>;
+
+  // Remove a task from the queue
+  removeTask: (taskId: string) => Promise<void>;
+
+  // Move running tasks back to pending, used after the service worker restarts
+  requeueRunningTasks: () => Promise<TaskRecord[]>;
+}
+
+// A message of the agent's message history, in the serialized langchain format
+export interface CheckpointMessage {
+  type: string; // Message type, e.g. human, ai, system or tool
+  data: Record<string, unknown>; // Message fields, e.g. content and tool_calls
+  inputTokens: number; // Token count of the message
+  pageStateBaseline?: boolean; // The full page state later state messages described the changes of, missing for other messages
+}
+
+export interface CheckpointActionResult {
+  isDone: boolean;
+  extractedContent: string | null;
+  error: string | null;
+  includeInMemory: boolean;
+}
+
+// Executor state saved at every step boundary, used to resume a task after the service worker restarts
+export interface TaskCheckpoint {
+  taskId: string;
+  tabId: number | null; // Tab the agent was working on
+  tasks: string[]; // The initial task followed by its follow-up tasks
+  step: number; // The next step to run
+  nSteps: number;
+  consecutiveFailures: number;
+  consecutiveValidatorFailures: number;
+  actionResults: CheckpointActionResult[];
+  messages: CheckpointMessage[];
+  toolId: number; // Next tool call id of the message manager
+  validatorPlan: string | null;
+  recordedActions: MacroAction[]; // Successful actions so far, saved as a macro when the task succeeds
+  replayedActions?: number; // Actions of the macro replayed so far, missing when the task is not replaying a macro
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface TaskCheckpointStorage {
+  // Get the last checkpoint of a task
+  getCheckpoint: (taskId: string) => Promise<TaskCheckpoint | null>;
+
+  // Save a checkpoint, replacing the previous one of the task
+  saveCheckpoint: (checkpoint: Omit<TaskCheckpoint, 'updatedAt'>) => Promise<void>;
+
+  // Remove the checkpoint of a task
+  removeCheckpoint: (taskId: string) => Promise<void>;
+}
@@ -0,0 +1,29 @@
+import type { BaseStorage } from '../base/types';
+
+// Tokens consumed by LLM calls, as reported by the provider
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD, calls to models without a price cost nothing
+}
+
+// Token usage of all tasks of a chat session
+export interface SessionUsage {
+  total: TokenUsage;
+  agents: Record<string, TokenUsage>; // Usage keyed by agent name, e.g. planner, navigator and validator
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export type TokenUsageStorage = BaseStorage<Record<string, SessionUsage>> & {
+  // Get the usage of all sessions, keyed by session id
+  getAllUsage: () => Promise<Record<string, SessionUsage>>;
+
+  // Get the usage of a chat session
+  getUsage: (sessionId: string) => Promise<SessionUsage | null>;
+
+  // Add the usage of an LLM call made by an agent to the session totals
+  addUsage: (sessionId: string, agent: string, usage: TokenUsage) => Promise<SessionUsage>;
+
+  // Remove the usage of a chat session
+  removeUsage: (sessionId: string) => Promise<void>;
+};
@@ -0,0 +1,63 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { SessionUsage, TokenUsage, TokenUsageStorage } from './types';
+
+const storage = createStorage<Record<string, SessionUsage>>(
+  'token_usage',
+  {},
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const EMPTY_TOKEN_USAGE: TokenUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cost: 0,
+};
+
+function sumUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cost: a.cost + b.cost,
+  };
+}
+
+export const tokenUsageStore: TokenUsageStorage = {
+  ...storage,
+  async getAllUsage() {
+    return (await storage.get()) || {};
+  },
+  async getUsage(sessionId: string) {
+    const allUsage = await storage.get();
+    return allUsage?.[sessionId] ?? null;
+  },
+  async addUsage(sessionId: string, agent: string, usage: TokenUsage) {
+    let sessionUsage: SessionUsage | undefined;
+    await storage.set(prev => {
+      const current = prev[sessionId] ?? { total: EMPTY_TOKEN_USAGE, agents: {}, updatedAt: 0 };
+      sessionUsage = {
+        total: sumUsage(current.total, usage),
+        agents: {
+          ...current.agents,
+          [agent]: sumUsage(current.agents[agent] ?? EMPTY_TOKEN_USAGE, usage),
+        },
+        updatedAt: Date.now(),
+      };
+      return { ...prev, [sessionId]: sessionUsage };
+    });
+    if (!sessionUsage) {
+      throw new Error(`Failed to add token usage to session ${sessionId}`);
+    }
+    return sessionUsage;
+  },
+  async removeUsage(sessionId: string) {
+    await storage.set(prev => {
+      const next = { ...prev };
+      delete next[sessionId];
+      return next;
+    });
+  },
+};
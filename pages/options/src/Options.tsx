@@ -3,13 +3,22 @@ import '@src/Options.css';
 import { Button } from '@extension/ui';
 import { withErrorBoundary, withSuspense } from '@extension/shared';
 import { GeneralSettings } from './components/GeneralSettings';
+import { BrowserSettings } from './components/BrowserSettings';
+import { StealthSettings } from './components/StealthSettings';
 import { ModelSettings } from './components/ModelSettings';
+import { ApprovalSettings } from './components/ApprovalSettings';
+import { SecretSettings } from './components/SecretSettings';
+import { PriceSettings } from './components/PriceSettings';
 
-type TabTypes = 'general' | 'models';
+type TabTypes = 'general' | 'browser' | 'models' | 'pricing' | 'approval' | 'secrets';
 
 const TABS: { id: TabTypes; icon: string; label: string }[] = [
   { id: 'general', icon: '⚙️', label: 'General' },
+  { id: 'browser', icon: '🌐', label: 'Browser' },
   { id: 'models', icon: '📊', label: 'Models' },
+  { id: 'pricing', icon: '💲', label: 'Pricing' },
+  { id: 'approval', icon: '✋', label: 'Approval' },
+  { id: 'secrets', icon: '🔑', label: 'Secrets' },
 ];
 
 const Options = () => {
@@ -33,8 +42,21 @@ const Options = () => {
     switch (activeTab) {
       case 'general':
         return <GeneralSettings isDarkMode={isDarkMode} />;
+      case 'browser':
+        return (
+          <div className="space-y-6">
+            <BrowserSettings isDarkMode={isDarkMode} />
+            <StealthSettings isDarkMode={isDarkMode} />
+          </div>
+        );
       case 'models':
         return <ModelSettings isDarkMode={isDarkMode} />;
+      case 'pricing':
+        return <PriceSettings isDarkMode={isDarkMode} />;
+      case 'approval':
+        return <ApprovalSettings isDarkMode={isDarkMode} />;
+      case 'secrets':
+        return <SecretSettings isDarkMode={isDarkMode} />;
       default:
         return null;
     }
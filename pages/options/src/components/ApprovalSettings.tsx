@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@extension/ui';
+import {
+  type ApprovalRule,
+  type ApprovalSettingsConfig,
+  approvalSettingsStore,
+  DEFAULT_APPROVAL_SETTINGS,
+} from '@extension/storage';
+
+interface ApprovalSettingsProps {
+  isDarkMode?: boolean;
+}
+
+type RuleListField = 'actions' | 'labels' | 'domains';
+
+const RULE_LIST_FIELDS: { field: RuleListField; label: string; placeholder: string }[] = [
+  { field: 'actions', label: 'Actions', placeholder: 'click_element, input_text (empty for all actions)' },
+  { field: 'labels', label: 'Element text', placeholder: 'buy, delete (empty for any element)' },
+  { field: 'domains', label: 'Domains', placeholder: 'example.com (empty for any domain)' },
+];
+
+// Split a comma separated input into a list of non-empty values
+const parseList = (value: string): string[] =>
+  value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+export const ApprovalSettings = ({ isDarkMode = false }: ApprovalSettingsProps) => {
+  const [settings, setSettings] = useState<ApprovalSettingsConfig>(DEFAULT_APPROVAL_SETTINGS);
+  // comma separated values being edited, saved when the input loses focus
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    // Load initial settings
+    approvalSettingsStore.getSettings().then(setSettings);
+  }, []);
+
+  const reloadSettings = async () => {
+    setSettings(await approvalSettingsStore.getSettings());
+  };
+
+  const toggleEnabled = async (enabled: boolean) => {
+    setSettings({ ...settings, enabled });
+    await approvalSettingsStore.updateSettings({ enabled });
+  };
+
+  const updateRule = async (ruleId: string, update: Partial<Omit<ApprovalRule, 'id'>>) => {
+    await approvalSettingsStore.updateRule(ruleId, update);
+    await reloadSettings();
+  };
+
+  const commitDraft = async (rule: ApprovalRule, field: RuleListField) => {
+    const key = `${rule.id}-${field}`;
+    if (drafts[key] === undefined) {
+      return;
+    }
+    await updateRule(rule.id, { [field]: parseList(drafts[key]) });
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleAddRule = async () => {
+    await approvalSettingsStore.addRule({
+      name: 'New rule',
+      actions: ['click_element'],
+      labels: [],
+      domains: [],
+      enabled: true,
+    });
+    await reloadSettings();
+  };
+
+  const handleRemoveRule = async (ruleId: string) => {
+    await approvalSettingsStore.removeRule(ruleId);
+    await reloadSettings();
+  };
+
+  const inputClassName = `w-full rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2 text-sm`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-white'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-left text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          Action Approval
+        </h2>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Require Approval
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Pause the agent and ask before running actions that match a rule
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="approvalEnabled"
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={e => toggleEnabled(e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="approvalEnabled"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">Require Approval</span>
+              </label>
+            </div>
+          </div>
+
+          {settings.rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`space-y-3 rounded-lg border p-4 ${isDarkMode ? 'border-slate-600 bg-slate-700/50' : 'border-gray-200 bg-gray-50'}`}>
+              <div className="flex items-center justify-between space-x-2">
+                <label htmlFor={`rule-name-${rule.id}`} className="sr-only">
+                  Rule name
+                </label>
+                <input
+                  id={`rule-name-${rule.id}`}
+                  type="text"
+                  value={drafts[`${rule.id}-name`] ?? rule.name}
+                  onChange={e => setDrafts(prev => ({ ...prev, [`${rule.id}-name`]: e.target.value }))}
+                  onBlur={e => updateRule(rule.id, { name: e.target.value.trim() || rule.name })}
+                  className={inputClassName}
+                />
+                <label
+                  className={`flex items-center space-x-1 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                  />
+                  <span>Enabled</span>
+                </label>
+                <Button
+                  variant="danger"
+                  theme={isDarkMode ? 'dark' : 'light'}
+                  onClick={() => handleRemoveRule(rule.id)}>
+                  Delete
+                </Button>
+              </div>
+
+              {RULE_LIST_FIELDS.map(({ field, label, placeholder }) => (
+                <div key={field} className="flex items-center space-x-2">
+                  <label
+                    htmlFor={`rule-${field}-${rule.id}`}
+                    className={`w-28 shrink-0 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {label}
+                  </label>
+                  <input
+                    id={`rule-${field}-${rule.id}`}
+                    type="text"
+                    placeholder={placeholder}
+                    value={drafts[`${rule.id}-${field}`] ?? rule[field].join(', ')}
+                    onChange={e => setDrafts(prev => ({ ...prev, [`${rule.id}-${field}`]: e.target.value }))}
+                    onBlur={() => commitDraft(rule, field)}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div className="flex space-x-2 pt-2">
+            <Button variant="secondary" onClick={handleAddRule}>
+              Add Rule
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={async () => {
+                await approvalSettingsStore.resetToDefaults();
+                setDrafts({});
+                await reloadSettings();
+              }}>
+              Reset to Defaults
+            </Button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@extension/ui';
+import {
+  type BrowserSettingsConfig,
+  type BrowserSettingsErrors,
+  browserSettingsStore,
+  DEFAULT_BROWSER_SETTINGS,
+  validateBrowserSettings,
+} from '@extension/storage';
+
+interface BrowserSettingsProps {
+  isDarkMode?: boolean;
+}
+
+type ToggleKey = 'highlightElements' | 'includeDynamicAttributes';
+type InputKey = 'viewportExpansion' | 'waitBetweenActions' | 'maximumWaitPageLoadTime' | 'homePageUrl';
+
+const TOGGLES: { key: ToggleKey; title: string; description: string }[] = [
+  {
+    key: 'highlightElements',
+    title: 'Highlight Elements',
+    description: 'Mark the interactive elements of the pages with their indices',
+  },
+  {
+    key: 'includeDynamicAttributes',
+    title: 'Dynamic Attributes',
+    description: 'Use dynamic attributes (e.g. data-*) in the selectors of the elements',
+  },
+];
+
+const INPUTS: { key: InputKey; title: string; description: string; step?: number }[] = [
+  {
+    key: 'viewportExpansion',
+    title: 'Viewport Expansion',
+    description: 'Pixels around the viewport whose elements are included, -1 for the whole page',
+    step: 100,
+  },
+  {
+    key: 'waitBetweenActions',
+    title: 'Wait Between Actions',
+    description: 'Seconds to wait after each action',
+    step: 0.5,
+  },
+  {
+    key: 'maximumWaitPageLoadTime',
+    title: 'Max Page Load Wait',
+    description: 'Seconds to wait at most for a page to load',
+    step: 1,
+  },
+  {
+    key: 'homePageUrl',
+    title: 'Home Page',
+    description: 'Page opened when there is no tab to work in',
+  },
+];
+
+// Convert the input text to the value of the setting, numbers are kept as NaN when invalid
+const parseInput = (key: InputKey, value: string): Partial<BrowserSettingsConfig> =>
+  key === 'homePageUrl' ? { homePageUrl: value.trim() } : { [key]: value.trim() === '' ? Number.NaN : Number(value) };
+
+export const BrowserSettings = ({ isDarkMode = false }: BrowserSettingsProps) => {
+  const [settings, setSettings] = useState<BrowserSettingsConfig>(DEFAULT_BROWSER_SETTINGS);
+  // inputs being edited, saved when the input loses focus and the value is valid
+  const [drafts, setDrafts] = useState<Partial<Record<InputKey, string>>>({});
+  const [errors, setErrors] = useState<BrowserSettingsErrors>({});
+
+  useEffect(() => {
+    // Load initial settings
+    browserSettingsStore.getSettings().then(setSettings);
+  }, []);
+
+  const updateSettings = async (update: Partial<BrowserSettingsConfig>) => {
+    setSettings(prev => ({ ...prev, ...update }));
+    await browserSettingsStore.updateSettings(update);
+  };
+
+  const commitDraft = async (key: InputKey) => {
+    const draft = drafts[key];
+    if (draft === undefined) {
+      return;
+    }
+    const update = parseInput(key, draft);
+    const error = validateBrowserSettings(update)[key];
+    setErrors(prev => ({ ...prev, [key]: error }));
+    if (error) {
+      return;
+    }
+    await updateSettings(update);
+    setDrafts(prev => ({ ...prev, [key]: undefined }));
+  };
+
+  const inputClassName = `rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-white'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-left text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          Browser
+        </h2>
+        <p className={`mb-4 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Changes apply right away, running tasks included.
+        </p>
+
+        <div className="space-y-4">
+          {TOGGLES.map(({ key, title, description }) => (
+            <div key={key} className="flex items-center justify-between">
+              <div>
+                <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{title}</h3>
+                <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{description}</p>
+              </div>
+              <div className="relative inline-flex cursor-pointer items-center">
+                <input
+                  id={key}
+                  type="checkbox"
+                  checked={settings[key]}
+                  onChange={e => updateSettings({ [key]: e.target.checked })}
+                  className="peer sr-only"
+                />
+                <label
+                  htmlFor={key}
+                  className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                  <span className="sr-only">{title}</span>
+                </label>
+              </div>
+            </div>
+          ))}
+
+          {INPUTS.map(({ key, title, description, step }) => (
+            <div key={key}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{title}</h3>
+                  <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {description}
+                  </p>
+                </div>
+                <label htmlFor={key} className="sr-only">
+                  {title}
+                </label>
+                <input
+                  id={key}
+                  type={key === 'homePageUrl' ? 'url' : 'number'}
+                  step={step}
+                  value={drafts[key] ?? String(settings[key])}
+                  onChange={e => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                  onBlur={() => commitDraft(key)}
+                  className={`${key === 'homePageUrl' ? 'w-64' : 'w-24'} ${inputClassName}`}
+                />
+              </div>
+              {errors[key] && (
+                <p className={`mt-1 text-right text-xs ${isDarkMode ? 'text-red-400' : 'text-red-500'}`}>
+                  {errors[key]}
+                </p>
+              )}
+            </div>
+          ))}
+
+          <div className="flex space-x-2 pt-2">
+            <Button
+              variant="secondary"
+              onClick={async () => {
+                await browserSettingsStore.resetToDefaults();
+                setDrafts({});
+                setErrors({});
+                setSettings(await browserSettingsStore.getSettings());
+              }}>
+              Reset to Defaults
+            </Button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
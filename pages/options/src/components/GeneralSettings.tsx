@@ -1,12 +1,44 @@
 import { useState, useEffect } from 'react';
-import { type GeneralSettingsConfig, generalSettingsStore, DEFAULT_GENERAL_SETTINGS } from '@extension/storage';
+import {
+  type GeneralSettingsConfig,
+  generalSettingsStore,
+  DEFAULT_GENERAL_SETTINGS,
+  DialogPolicyEnum,
+  HighlightModeEnum,
+  PageStateProviderEnum,
+  TabIsolationEnum,
+} from '@extension/storage';
 
 interface GeneralSettingsProps {
   isDarkMode?: boolean;
 }
 
+type DomainListKey = 'allowedDomains' | 'deniedDomains';
+
+const DOMAIN_LISTS: { key: DomainListKey; title: string; description: string }[] = [
+  {
+    key: 'allowedDomains',
+    title: 'Allowed Domains',
+    description: 'Only visit these domains, e.g. *.example.com (one per line, empty for all domains)',
+  },
+  {
+    key: 'deniedDomains',
+    title: 'Blocked Domains',
+    description: 'Never visit these domains, blocked domains take precedence over allowed ones',
+  },
+];
+
+// Split the textarea content into a list of domain patterns
+const parseDomainList = (value: string): string[] =>
+  value
+    .split(/[\n,]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
 export const GeneralSettings = ({ isDarkMode = false }: GeneralSettingsProps) => {
   const [settings, setSettings] = useState<GeneralSettingsConfig>(DEFAULT_GENERAL_SETTINGS);
+  // domain lists being edited, saved when the textarea loses focus
+  const [domainDrafts, setDomainDrafts] = useState<Partial<Record<DomainListKey, string>>>({});
 
   useEffect(() => {
     // Load initial settings
@@ -145,6 +177,192 @@ export const GeneralSettings = ({ isDarkMode = false }: GeneralSettingsProps) =>
             </div>
           </div>
 
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Send Page Changes Only
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Keep the full page in memory and only send its changes on later steps (uses fewer tokens)
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="sendPageChangesOnly"
+                type="checkbox"
+                checked={settings.sendPageChangesOnly}
+                onChange={e => updateSetting('sendPageChangesOnly', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="sendPageChangesOnly"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">Send Page Changes Only</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Page Elements</h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Find interactive elements in the DOM or in the accessibility tree (finds more custom controls)
+              </p>
+            </div>
+            <label htmlFor="pageStateProvider" className="sr-only">
+              Page Elements
+            </label>
+            <select
+              id="pageStateProvider"
+              value={settings.pageStateProvider}
+              onChange={e => updateSetting('pageStateProvider', e.target.value as PageStateProviderEnum)}
+              className={`rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}>
+              <option value={PageStateProviderEnum.DomTree}>DOM tree</option>
+              <option value={PageStateProviderEnum.Accessibility}>Accessibility tree</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Element Highlights
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Mark elements in the page, or only on the screenshots sent to the model (leaves the page untouched)
+              </p>
+            </div>
+            <label htmlFor="highlightMode" className="sr-only">
+              Element Highlights
+            </label>
+            <select
+              id="highlightMode"
+              value={settings.highlightMode}
+              onChange={e => updateSetting('highlightMode', e.target.value as HighlightModeEnum)}
+              className={`rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}>
+              <option value={HighlightModeEnum.Page}>In the page</option>
+              <option value={HighlightModeEnum.Screenshot}>On screenshots</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Capture Network Responses
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Keep the data pages load in the background (XHR and fetch), so the agent can read it directly
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="captureNetworkResponses"
+                type="checkbox"
+                checked={settings.captureNetworkResponses}
+                onChange={e => updateSetting('captureNetworkResponses', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="captureNetworkResponses"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">Capture Network Responses</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Page Dialogs</h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Let the agent decide on alert, confirm and prompt dialogs, or accept or dismiss them right away for
+                unattended runs
+              </p>
+            </div>
+            <label htmlFor="dialogPolicy" className="sr-only">
+              Page Dialogs
+            </label>
+            <select
+              id="dialogPolicy"
+              value={settings.dialogPolicy}
+              onChange={e => updateSetting('dialogPolicy', e.target.value as DialogPolicyEnum)}
+              className={`rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}>
+              <option value={DialogPolicyEnum.Navigator}>Agent decides</option>
+              <option value={DialogPolicyEnum.Accept}>Accept</option>
+              <option value={DialogPolicyEnum.Dismiss}>Dismiss</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Task Tabs</h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Run each task in the current tab, or in a tab group or window of its own so it never takes over your tab
+              </p>
+            </div>
+            <label htmlFor="tabIsolation" className="sr-only">
+              Task Tabs
+            </label>
+            <select
+              id="tabIsolation"
+              value={settings.tabIsolation}
+              onChange={e => updateSetting('tabIsolation', e.target.value as TabIsolationEnum)}
+              className={`rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}>
+              <option value={TabIsolationEnum.None}>Current tab</option>
+              <option value={TabIsolationEnum.TabGroup}>Tab group</option>
+              <option value={TabIsolationEnum.Window}>Window</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Close Task Tabs
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Close the tab group or window of a task when it is done, instead of collapsing it
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="closeTabsOnCompletion"
+                type="checkbox"
+                checked={settings.closeTabsOnCompletion}
+                onChange={e => updateSetting('closeTabsOnCompletion', e.target.checked)}
+                disabled={settings.tabIsolation === TabIsolationEnum.None}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="closeTabsOnCompletion"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">Close Task Tabs</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Close Opened Tabs
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Close the tabs the agent opened when a task is done, your own tabs stay open
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="closeOpenedTabsOnCompletion"
+                type="checkbox"
+                checked={settings.closeOpenedTabsOnCompletion}
+                onChange={e => updateSetting('closeOpenedTabsOnCompletion', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="closeOpenedTabsOnCompletion"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">Close Opened Tabs</span>
+              </label>
+            </div>
+          </div>
+
           <div className="flex items-center justify-between">
             <div>
               <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
@@ -167,6 +385,52 @@ export const GeneralSettings = ({ isDarkMode = false }: GeneralSettingsProps) =>
               className={`w-20 rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
             />
           </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Max Concurrent Tasks
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                How many tasks can run at the same time on different tabs
+              </p>
+            </div>
+            <label htmlFor="maxConcurrentTasks" className="sr-only">
+              Max Concurrent Tasks
+            </label>
+            <input
+              id="maxConcurrentTasks"
+              type="number"
+              min={1}
+              max={5}
+              value={settings.maxConcurrentTasks}
+              onChange={e => updateSetting('maxConcurrentTasks', Number.parseInt(e.target.value, 10))}
+              className={`w-20 rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
+            />
+          </div>
+
+          {DOMAIN_LISTS.map(({ key, title, description }) => (
+            <div key={key} className="space-y-2">
+              <div>
+                <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{title}</h3>
+                <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{description}</p>
+              </div>
+              <label htmlFor={key} className="sr-only">
+                {title}
+              </label>
+              <textarea
+                id={key}
+                rows={3}
+                value={domainDrafts[key] ?? settings[key].join('\n')}
+                onChange={e => setDomainDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                onBlur={e => {
+                  updateSetting(key, parseDomainList(e.target.value));
+                  setDomainDrafts(prev => ({ ...prev, [key]: undefined }));
+                }}
+                className={`w-full rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2 text-sm`}
+              />
+            </div>
+          ))}
         </div>
       </div>
     </section>
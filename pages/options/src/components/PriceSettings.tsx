@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@extension/ui';
+import { type ModelPrice, type ModelPricesConfig, modelPriceStore, DEFAULT_MODEL_PRICES } from '@extension/storage';
+
+interface PriceSettingsProps {
+  isDarkMode?: boolean;
+}
+
+const PRICE_FIELDS: { field: keyof ModelPrice; label: string }[] = [
+  { field: 'input', label: 'Input' },
+  { field: 'output', label: 'Output' },
+];
+
+export const PriceSettings = ({ isDarkMode = false }: PriceSettingsProps) => {
+  const [prices, setPrices] = useState<ModelPricesConfig>(DEFAULT_MODEL_PRICES);
+  const [newModelName, setNewModelName] = useState('');
+
+  useEffect(() => {
+    // Load initial prices
+    modelPriceStore.getPrices().then(setPrices);
+  }, []);
+
+  const reloadPrices = async () => {
+    setPrices(await modelPriceStore.getPrices());
+  };
+
+  const updatePrice = async (modelName: string, field: keyof ModelPrice, value: string) => {
+    const parsed = Number.parseFloat(value);
+    if (Number.isNaN(parsed) || parsed < 0) {
+      return;
+    }
+    await modelPriceStore.setPrice(modelName, { ...prices[modelName], [field]: parsed });
+    await reloadPrices();
+  };
+
+  const handleAddModel = async () => {
+    const modelName = newModelName.trim();
+    if (!modelName || prices[modelName]) {
+      return;
+    }
+    await modelPriceStore.setPrice(modelName, { input: 0, output: 0 });
+    setNewModelName('');
+    await reloadPrices();
+  };
+
+  const handleRemoveModel = async (modelName: string) => {
+    await modelPriceStore.removePrice(modelName);
+    await reloadPrices();
+  };
+
+  const inputClassName = `rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2 text-sm`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-white'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-left text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          Model Prices
+        </h2>
+        <p className={`mb-4 text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Prices in USD per million tokens, used to show the cost of tasks in the side panel. Models without a price are
+          counted as free.
+        </p>
+
+        <div className="space-y-2">
+          {Object.entries(prices)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([modelName, price]) => (
+              <div key={modelName} className="flex items-center space-x-2">
+                <span className={`flex-1 truncate text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  {modelName}
+                </span>
+                {PRICE_FIELDS.map(({ field, label }) => (
+                  <input
+                    // remount the input when the saved price changes, so that invalid drafts are discarded
+                    key={`${field}-${price[field]}`}
+                    type="number"
+                    min={0}
+                    step="any"
+                    aria-label={`${label} price of ${modelName}`}
+                    title={`${label} price`}
+                    defaultValue={price[field]}
+                    onBlur={e => updatePrice(modelName, field, e.target.value)}
+                    className={`w-24 ${inputClassName}`}
+                  />
+                ))}
+                <Button
+                  variant="danger"
+                  theme={isDarkMode ? 'dark' : 'light'}
+                  onClick={() => handleRemoveModel(modelName)}>
+                  Delete
+                </Button>
+              </div>
+            ))}
+        </div>
+
+        <div className="mt-4 flex items-center space-x-2">
+          <input
+            type="text"
+            aria-label="Model name"
+            placeholder="Model name, e.g. gpt-4o"
+            value={newModelName}
+            onChange={e => setNewModelName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleAddModel()}
+            className={`flex-1 ${inputClassName}`}
+          />
+          <Button variant="secondary" onClick={handleAddModel}>
+            Add Model
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={async () => {
+              await modelPriceStore.resetToDefaults();
+              await reloadPrices();
+            }}>
+            Reset to Defaults
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@extension/ui';
+import { type SecretMetadata, secretVaultStore } from '@extension/storage';
+
+interface SecretSettingsProps {
+  isDarkMode?: boolean;
+}
+
+export const SecretSettings = ({ isDarkMode = false }: SecretSettingsProps) => {
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [secrets, setSecrets] = useState<SecretMetadata[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [newSecret, setNewSecret] = useState({ name: '', domain: '', value: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVault = useCallback(async () => {
+    setIsInitialized(await secretVaultStore.isInitialized());
+    setIsUnlocked(await secretVaultStore.isUnlocked());
+    setSecrets(await secretVaultStore.getSecretsMetadata());
+  }, []);
+
+  useEffect(() => {
+    loadVault();
+  }, [loadVault]);
+
+  // Run a vault operation and show its error, if any
+  const runVaultAction = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await loadVault();
+  };
+
+  const handleUnlock = () =>
+    runVaultAction(async () => {
+      await secretVaultStore.unlock(passphrase);
+      setPassphrase('');
+    });
+
+  const handleAddSecret = () =>
+    runVaultAction(async () => {
+      const name = newSecret.name.trim();
+      const domain = newSecret.domain.trim();
+      if (!name || !domain || !newSecret.value) {
+        throw new Error('Name, domain and value are required');
+      }
+      if (!/^[\w-]+$/.test(name)) {
+        throw new Error('Name can only contain letters, numbers, underscores and dashes');
+      }
+      await secretVaultStore.addSecret({ name, domain, value: newSecret.value });
+      setNewSecret({ name: '', domain: '', value: '' });
+    });
+
+  const handleReset = () => {
+    if (window.confirm('Delete the vault and all its secrets? This can not be undone.')) {
+      runVaultAction(() => secretVaultStore.reset());
+    }
+  };
+
+  const inputClassName = `rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2 text-sm`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-white'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-left text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          Secrets
+        </h2>
+        <p className={`mb-4 text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Secrets are encrypted with your passphrase. The agent refers to them as &lt;secret&gt;name&lt;/secret&gt; and
+          their values are only typed into pages of the secret&apos;s domain, they are never sent to the model. The
+          vault stays unlocked until the browser is closed.
+        </p>
+
+        {error && <p className={`mb-4 text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+
+        {!isUnlocked ? (
+          <div className="flex items-center space-x-2">
+            <label htmlFor="vaultPassphrase" className="sr-only">
+              Passphrase
+            </label>
+            <input
+              id="vaultPassphrase"
+              type="password"
+              placeholder={isInitialized ? 'Passphrase' : 'Choose a passphrase'}
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleUnlock()}
+              className={`flex-1 ${inputClassName}`}
+            />
+            <Button onClick={handleUnlock} disabled={!passphrase}>
+              {isInitialized ? 'Unlock' : 'Create Vault'}
+            </Button>
+            {isInitialized && (
+              <Button variant="danger" theme={isDarkMode ? 'dark' : 'light'} onClick={handleReset}>
+                Reset
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {secrets.length === 0 ? (
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>No secrets yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {secrets.map(secret => (
+                  <li
+                    key={secret.id}
+                    className={`flex items-center justify-between rounded-md border px-3 py-2 ${isDarkMode ? 'border-slate-600' : 'border-gray-200'}`}>
+                    <div>
+                      <span className={`font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                        {secret.name}
+                      </span>
+                      <span className={`ml-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {secret.domain}
+                      </span>
+                    </div>
+                    <Button
+                      variant="danger"
+                      theme={isDarkMode ? 'dark' : 'light'}
+                      onClick={() => runVaultAction(() => secretVaultStore.removeSecret(secret.id))}>
+                      Delete
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                aria-label="Secret name"
+                placeholder="Name, e.g. github_password"
+                value={newSecret.name}
+                onChange={e => setNewSecret({ ...newSecret, name: e.target.value })}
+                className={`w-1/3 ${inputClassName}`}
+              />
+              <input
+                type="text"
+                aria-label="Secret domain"
+                placeholder="Domain, e.g. github.com"
+                value={newSecret.domain}
+                onChange={e => setNewSecret({ ...newSecret, domain: e.target.value })}
+                className={`w-1/3 ${inputClassName}`}
+              />
+              <input
+                type="password"
+                aria-label="Secret value"
+                placeholder="Value"
+                value={newSecret.value}
+                onChange={e => setNewSecret({ ...newSecret, value: e.target.value })}
+                className={`w-1/3 ${inputClassName}`}
+              />
+              <Button onClick={handleAddSecret}>Add</Button>
+            </div>
+
+            <Button variant="secondary" onClick={() => runVaultAction(() => secretVaultStore.lock())}>
+              Lock Vault
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@extension/ui';
+import {
+  type StealthSettingsConfig,
+  type StealthSettingsErrors,
+  stealthSettingsStore,
+  DEFAULT_STEALTH_SETTINGS,
+  StealthPatchEnum,
+  validateStealthSettings,
+} from '@extension/storage';
+
+interface StealthSettingsProps {
+  isDarkMode?: boolean;
+}
+
+type InputKey = 'userAgent' | 'locale' | 'timezoneId';
+
+const PATCHES: { patch: StealthPatchEnum; label: string }[] = [
+  { patch: StealthPatchEnum.Webdriver, label: 'Hide navigator.webdriver' },
+  { patch: StealthPatchEnum.ChromeRuntime, label: 'Add window.chrome.runtime' },
+  { patch: StealthPatchEnum.Permissions, label: 'Regular notification permission queries' },
+  { patch: StealthPatchEnum.Languages, label: 'Report the locale as navigator.languages' },
+  { patch: StealthPatchEnum.Plugins, label: 'Report browser plugins' },
+  {
+    patch: StealthPatchEnum.OpenShadowRoots,
+    label: 'Force shadow roots open (elements in closed shadow roots are not found without it)',
+  },
+];
+
+const INPUTS: { key: InputKey; title: string; placeholder: string }[] = [
+  { key: 'userAgent', title: 'User Agent', placeholder: "Browser's user agent" },
+  { key: 'locale', title: 'Locale', placeholder: 'e.g. en-US' },
+  { key: 'timezoneId', title: 'Timezone', placeholder: 'e.g. Europe/Berlin' },
+];
+
+// Split the textarea content into a list of domain patterns
+const parseDomainList = (value: string): string[] =>
+  value
+    .split(/[\n,]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+export const StealthSettings = ({ isDarkMode = false }: StealthSettingsProps) => {
+  const [settings, setSettings] = useState<StealthSettingsConfig>(DEFAULT_STEALTH_SETTINGS);
+  // inputs being edited, saved when the input loses focus and the value is valid
+  const [drafts, setDrafts] = useState<Partial<Record<InputKey | 'disabledDomains', string>>>({});
+  const [errors, setErrors] = useState<StealthSettingsErrors>({});
+
+  useEffect(() => {
+    // Load initial settings
+    stealthSettingsStore.getSettings().then(setSettings);
+  }, []);
+
+  const updateSettings = async (update: Partial<StealthSettingsConfig>) => {
+    setSettings(prev => ({ ...prev, ...update }));
+    await stealthSettingsStore.updateSettings(update);
+  };
+
+  const commitDraft = async (key: InputKey) => {
+    const draft = drafts[key];
+    if (draft === undefined) {
+      return;
+    }
+    const update = { [key]: draft.trim() };
+    const error = validateStealthSettings(update)[key];
+    setErrors(prev => ({ ...prev, [key]: error }));
+    if (error) {
+      return;
+    }
+    await updateSettings(update);
+    setDrafts(prev => ({ ...prev, [key]: undefined }));
+  };
+
+  const togglePatch = (patch: StealthPatchEnum, checked: boolean) =>
+    updateSettings({
+      patches: checked ? [...settings.patches, patch] : settings.patches.filter(item => item !== patch),
+    });
+
+  const inputClassName = `rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-white'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-left text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          Stealth
+        </h2>
+        <p className={`mb-4 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Hide from the pages that they are automated. Changes apply to the tabs the agent attaches to next.
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Enable Stealth Profile
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Apply the patches and overrides below to the pages
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="stealthEnabled"
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={e => updateSettings({ enabled: e.target.checked })}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="stealthEnabled"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">Enable Stealth Profile</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Patches</h3>
+            {PATCHES.map(({ patch, label }) => (
+              <label
+                key={patch}
+                className={`flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                <input
+                  type="checkbox"
+                  checked={settings.patches.includes(patch)}
+                  disabled={!settings.enabled}
+                  onChange={e => togglePatch(patch, e.target.checked)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          {INPUTS.map(({ key, title, placeholder }) => (
+            <div key={key}>
+              <div className="flex items-center justify-between">
+                <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{title}</h3>
+                <label htmlFor={key} className="sr-only">
+                  {title}
+                </label>
+                <input
+                  id={key}
+                  type="text"
+                  placeholder={placeholder}
+                  disabled={!settings.enabled}
+                  value={drafts[key] ?? settings[key]}
+                  onChange={e => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                  onBlur={() => commitDraft(key)}
+                  className={`w-64 ${inputClassName}`}
+                />
+              </div>
+              {errors[key] && (
+                <p className={`mt-1 text-right text-xs ${isDarkMode ? 'text-red-400' : 'text-red-500'}`}>
+                  {errors[key]}
+                </p>
+              )}
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <div>
+              <h3 className={`text-lg font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Disabled Domains
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Leave the pages of these domains untouched, e.g. *.internal.example.com (one per line)
+              </p>
+            </div>
+            <label htmlFor="disabledDomains" className="sr-only">
+              Disabled Domains
+            </label>
+            <textarea
+              id="disabledDomains"
+              rows={3}
+              disabled={!settings.enabled}
+              value={drafts.disabledDomains ?? settings.disabledDomains.join('\n')}
+              onChange={e => setDrafts(prev => ({ ...prev, disabledDomains: e.target.value }))}
+              onBlur={e => {
+                updateSettings({ disabledDomains: parseDomainList(e.target.value) });
+                setDrafts(prev => ({ ...prev, disabledDomains: undefined }));
+              }}
+              className={`w-full text-sm ${inputClassName}`}
+            />
+          </div>
+
+          <div className="flex space-x-2 pt-2">
+            <Button
+              variant="secondary"
+              onClick={async () => {
+                await stealthSettingsStore.resetToDefaults();
+                setDrafts({});
+                setErrors({});
+                setSettings(await stealthSettingsStore.getSettings());
+              }}>
+              Reset to Defaults
+            </Button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
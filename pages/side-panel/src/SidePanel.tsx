@@ -3,10 +3,32 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { FiSettings } from 'react-icons/fi';
 import { PiPlusBold } from 'react-icons/pi';
 import { GrHistory } from 'react-icons/gr';
-import { type Message, Actors, chatHistoryStore } from '@extension/storage';
+import {
+  type BrowserDownload,
+  DeviceEmulationEnum,
+  type FileAttachment,
+  type FileFormatEnum,
+  type Macro,
+  type Message,
+  type SavedFile,
+  type SessionUsage,
+  Actors,
+  browserDownloadStore,
+  chatHistoryStore,
+  datasetStore,
+  fileAttachmentStore,
+  macroStore,
+  savedFileStore,
+  taskOutputStore,
+  tokenUsageStore,
+} from '@extension/storage';
 import MessageList from './components/MessageList';
 import ChatInput from './components/ChatInput';
 import ChatHistoryList from './components/ChatHistoryList';
+import ApprovalPrompt from './components/ApprovalPrompt';
+import MacroReplay from './components/MacroReplay';
+import TokenUsageSummary from './components/TokenUsageSummary';
+import SessionFiles from './components/SessionFiles';
 import { EventType, type AgentEvent, ExecutionState } from './types/event';
 import './SidePanel.css';
 
@@ -20,7 +42,27 @@ const SidePanel = () => {
   const [isFollowUpMode, setIsFollowUpMode] = useState(false);
   const [isHistoricalSession, setIsHistoricalSession] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [interruptedTaskId, setInterruptedTaskId] = useState<string | null>(null);
+  const [pendingApproval, setPendingApproval] = useState(false);
+  // macro recorded by the last successful task of the current session
+  const [sessionMacro, setSessionMacro] = useState<Macro | null>(null);
+  // token usage of all chat sessions, updated by the background while tasks run
+  // results of the current session that can be exported, the files saved and downloaded so far
+  const [sessionResults, setSessionResults] = useState<{
+    recordCount: number;
+    outputCount: number;
+    files: SavedFile[];
+    downloads: BrowserDownload[];
+  }>({ recordCount: 0, outputCount: 0, files: [], downloads: [] });
+  // bumped when the background saved a file, to reload the file list
+  const [savedFilesVersion, setSavedFilesVersion] = useState(0);
+  const [usageBySession, setUsageBySession] = useState<Record<string, SessionUsage>>({});
+  // files the user attached, the navigator can upload them to file inputs
+  const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+  // device the pages of the next new task are emulated as
+  const [device, setDevice] = useState<DeviceEmulationEnum>(DeviceEmulationEnum.None);
   const sessionIdRef = useRef<string | null>(null);
+  const showStopButtonRef = useRef(false);
   const portRef = useRef<chrome.runtime.Port | null>(null);
   const heartbeatIntervalRef = useRef<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -43,6 +85,10 @@ const SidePanel = () => {
     sessionIdRef.current = currentSessionId;
   }, [currentSessionId]);
 
+  useEffect(() => {
+    showStopButtonRef.current = showStopButton;
+  }, [showStopButton]);
+
   const appendMessage = useCallback((newMessage: Message, sessionId?: string | null) => {
     // Don't save progress messages
     const isProgressMessage = newMessage.content === 'Showing progress...';
@@ -85,17 +131,20 @@ const SidePanel = () => {
               setIsFollowUpMode(true);
               setInputEnabled(true);
               setShowStopButton(false);
+              setPendingApproval(false);
               break;
             case ExecutionState.TASK_FAIL:
               setIsFollowUpMode(true);
               setInputEnabled(true);
               setShowStopButton(false);
+              setPendingApproval(false);
               skip = false;
               break;
             case ExecutionState.TASK_CANCEL:
               setIsFollowUpMode(false);
               setInputEnabled(true);
               setShowStopButton(false);
+              setPendingApproval(false);
               skip = false;
               break;
             case ExecutionState.TASK_PAUSE:
@@ -154,6 +203,10 @@ const SidePanel = () => {
             case ExecutionState.ACT_FAIL:
               skip = false;
               break;
+            case ExecutionState.ACT_APPROVAL_REQUIRED:
+              setPendingApproval(true);
+              skip = false;
+              break;
             default:
               console.error('Invalid action', state);
               return;
@@ -225,7 +278,23 @@ const SidePanel = () => {
       portRef.current.onMessage.addListener((message: any) => {
         // Add type checking for message
         if (message && message.type === EventType.EXECUTION) {
+          // Several tasks can run at the same time, only show the events of the current session
+          if (message.data?.taskId && message.data.taskId !== sessionIdRef.current) {
+            return;
+          }
           handleTaskState(message);
+        } else if (message && message.type === 'task_queued') {
+          if (message.taskId !== sessionIdRef.current) {
+            return;
+          }
+          appendMessage({
+            actor: Actors.SYSTEM,
+            content:
+              message.position > 0
+                ? `Task queued behind ${message.position} other task(s)`
+                : 'Task queued, it will start when a running task finishes',
+            timestamp: Date.now(),
+          });
         } else if (message && message.type === 'error') {
           // Handle error messages from service worker
           appendMessage({
@@ -235,6 +304,8 @@ const SidePanel = () => {
           });
           setInputEnabled(true);
           setShowStopButton(false);
+        } else if (message && message.type === 'file_saved') {
+          setSavedFilesVersion(version => version + 1);
         } else if (message && message.type === 'heartbeat_ack') {
           console.log('Heartbeat acknowledged');
         }
@@ -248,6 +319,11 @@ const SidePanel = () => {
           clearInterval(heartbeatIntervalRef.current);
           heartbeatIntervalRef.current = null;
         }
+        // The service worker was stopped while a task was running, try to resume it
+        if (showStopButtonRef.current && sessionIdRef.current) {
+          setInterruptedTaskId(sessionIdRef.current);
+          return;
+        }
         setInputEnabled(true);
         setShowStopButton(false);
       });
@@ -299,6 +375,42 @@ const SidePanel = () => {
     [stopConnection],
   );
 
+  // Reconnect and resume the interrupted task from its last checkpoint
+  useEffect(() => {
+    if (!interruptedTaskId) {
+      return;
+    }
+    setInterruptedTaskId(null);
+
+    const resumeTask = async () => {
+      try {
+        const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+        setupConnection();
+        sendMessage({
+          type: 'resume_from_checkpoint',
+          taskId: interruptedTaskId,
+          tabId: tabs[0]?.id,
+        });
+        appendMessage({
+          actor: Actors.SYSTEM,
+          content: 'Connection to the background service was lost, resuming the task from its last checkpoint',
+          timestamp: Date.now(),
+        });
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        console.error('resume_from_checkpoint error', errorMessage);
+        appendMessage({
+          actor: Actors.SYSTEM,
+          content: errorMessage,
+          timestamp: Date.now(),
+        });
+        setInputEnabled(true);
+        setShowStopButton(false);
+      }
+    };
+    resumeTask();
+  }, [interruptedTaskId, setupConnection, sendMessage, appendMessage]);
+
   const handleSendMessage = async (text: string) => {
     console.log('handleSendMessage', text);
 
@@ -364,6 +476,7 @@ const SidePanel = () => {
           task: text,
           taskId: sessionIdRef.current,
           tabId,
+          device,
         });
         console.log('new_task sent', text, tabId, sessionIdRef.current);
       }
@@ -385,6 +498,7 @@ const SidePanel = () => {
     try {
       portRef.current?.postMessage({
         type: 'cancel_task',
+        taskId: sessionIdRef.current,
       });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
@@ -399,6 +513,123 @@ const SidePanel = () => {
     setShowStopButton(false);
   };
 
+  const handleApproval = (approved: boolean) => {
+    try {
+      sendMessage({
+        type: approved ? 'approve_action' : 'reject_action',
+        taskId: sessionIdRef.current,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('approval error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+    }
+    setPendingApproval(false);
+  };
+
+  const handleReplay = async () => {
+    if (!sessionMacro) return;
+
+    try {
+      const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+      const tabId = tabs[0]?.id;
+      if (!tabId) {
+        throw new Error('No active tab found');
+      }
+
+      // the replay runs in its own chat session, the recorded session stays unchanged
+      const task = sessionMacro.task;
+      const newSession = await chatHistoryStore.createSession(
+        `Replay: ${task.substring(0, 42)}${task.length > 42 ? '...' : ''}`,
+      );
+      setMessages([]);
+      setCurrentSessionId(newSession.id);
+      sessionIdRef.current = newSession.id;
+      setIsHistoricalSession(false);
+      setIsFollowUpMode(false);
+      setInputEnabled(false);
+      setShowStopButton(true);
+
+      appendMessage({ actor: Actors.USER, content: task, timestamp: Date.now() }, newSession.id);
+
+      if (!portRef.current) {
+        setupConnection();
+      }
+      await sendMessage({
+        type: 'replay_task',
+        taskId: newSession.id,
+        macroId: sessionMacro.id,
+        tabId,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('replay_task error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+      setInputEnabled(true);
+      setShowStopButton(false);
+      stopConnection();
+    }
+  };
+
+  const handleExport = (format: FileFormatEnum) => {
+    try {
+      if (!portRef.current) {
+        setupConnection();
+      }
+      sendMessage({
+        type: 'export_session',
+        taskId: sessionIdRef.current,
+        format,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('export_session error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+    }
+  };
+
+  const handleAttachFiles = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const dataUrl = await new Promise<string>((resolve, reject) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve(reader.result as string);
+          reader.onerror = () => reject(reader.error);
+          reader.readAsDataURL(file);
+        });
+        await fileAttachmentStore.addAttachment({
+          name: file.name,
+          mimeType: file.type,
+          content: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        });
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        console.error('attach file error', errorMessage);
+        appendMessage({
+          actor: Actors.SYSTEM,
+          content: `Failed to attach ${file.name}: ${errorMessage}`,
+          timestamp: Date.now(),
+        });
+      }
+    }
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    fileAttachmentStore.removeAttachment(id).catch(err => console.error('Failed to remove attached file:', err));
+  };
+
   const handleNewChat = () => {
     // Clear messages and start a new chat
     setMessages([]);
@@ -408,6 +639,7 @@ const SidePanel = () => {
     setShowStopButton(false);
     setIsFollowUpMode(false);
     setIsHistoricalSession(false);
+    setPendingApproval(false);
 
     // Disconnect any existing connection
     stopConnection();
@@ -449,6 +681,12 @@ const SidePanel = () => {
   const handleSessionDelete = async (sessionId: string) => {
     try {
       await chatHistoryStore.deleteSession(sessionId);
+      await macroStore.deleteMacro(sessionId);
+      await tokenUsageStore.removeUsage(sessionId);
+      await datasetStore.deleteDataset(sessionId);
+      await taskOutputStore.deleteOutputs(sessionId);
+      await savedFileStore.deleteFiles(sessionId);
+      await browserDownloadStore.deleteDownloads(sessionId);
       await loadChatSessions();
       if (sessionId === currentSessionId) {
         setMessages([]);
@@ -466,6 +704,65 @@ const SidePanel = () => {
     }
   };
 
+  // Load the macro of the current session, it is saved when a task of the session succeeds
+  useEffect(() => {
+    if (!currentSessionId || showStopButton) {
+      setSessionMacro(null);
+      return;
+    }
+    macroStore
+      .getMacro(currentSessionId)
+      .then(setSessionMacro)
+      .catch(err => console.error('Failed to load macro:', err));
+  }, [currentSessionId, showStopButton]);
+
+  // Load the results of the current session, new messages may come with new results or saved files
+  useEffect(() => {
+    if (!currentSessionId) {
+      setSessionResults({ recordCount: 0, outputCount: 0, files: [], downloads: [] });
+      return;
+    }
+    Promise.all([
+      datasetStore.getDataset(currentSessionId),
+      taskOutputStore.getOutputs(currentSessionId),
+      savedFileStore.getFiles(currentSessionId),
+      browserDownloadStore.getDownloads(currentSessionId),
+    ])
+      .then(([dataset, outputs, files, downloads]) =>
+        setSessionResults({
+          recordCount: dataset?.records.length ?? 0,
+          outputCount: outputs.length,
+          files,
+          downloads,
+        }),
+      )
+      .catch(err => console.error('Failed to load session results:', err));
+  }, [currentSessionId, messages.length, savedFilesVersion]);
+
+  // Keep the token usage up to date, the background adds usage after every LLM call
+  useEffect(() => {
+    const loadUsage = () => {
+      tokenUsageStore
+        .getAllUsage()
+        .then(setUsageBySession)
+        .catch(err => console.error('Failed to load token usage:', err));
+    };
+    loadUsage();
+    return tokenUsageStore.subscribe(loadUsage);
+  }, []);
+
+  // Keep the attached files up to date, they are shared by all chat sessions
+  useEffect(() => {
+    const loadAttachments = () => {
+      fileAttachmentStore
+        .getAttachments()
+        .then(setAttachments)
+        .catch(err => console.error('Failed to load attached files:', err));
+    };
+    loadAttachments();
+    return fileAttachmentStore.subscribe(loadAttachments);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -535,6 +832,7 @@ const SidePanel = () => {
           <div className="flex-1 overflow-hidden">
             <ChatHistoryList
               sessions={chatSessions}
+              usage={usageBySession}
               onSessionSelect={handleSessionSelect}
               onSessionDelete={handleSessionDelete}
               visible={true}
@@ -555,6 +853,11 @@ const SidePanel = () => {
                     setContent={setter => {
                       setInputTextRef.current = setter;
                     }}
+                    attachments={attachments}
+                    onAttachFiles={handleAttachFiles}
+                    onRemoveAttachment={handleRemoveAttachment}
+                    device={device}
+                    onDeviceChange={isFollowUpMode ? undefined : setDevice}
                     isDarkMode={isDarkMode}
                   />
                 </div>
@@ -568,6 +871,36 @@ const SidePanel = () => {
             {messages.length > 0 && (
               <div
                 className={`border-t ${isDarkMode ? 'border-sky-900' : 'border-sky-100'} p-2 shadow-sm backdrop-blur-sm`}>
+                {pendingApproval && (
+                  <ApprovalPrompt
+                    onApprove={() => handleApproval(true)}
+                    onReject={() => handleApproval(false)}
+                    isDarkMode={isDarkMode}
+                  />
+                )}
+                {currentSessionId && usageBySession[currentSessionId] && (
+                  <TokenUsageSummary usage={usageBySession[currentSessionId]} isDarkMode={isDarkMode} />
+                )}
+                {(sessionResults.recordCount > 0 ||
+                  sessionResults.outputCount > 0 ||
+                  sessionResults.files.length > 0 ||
+                  sessionResults.downloads.length > 0) && (
+                  <SessionFiles
+                    recordCount={sessionResults.recordCount}
+                    canExport={sessionResults.recordCount > 0 || sessionResults.outputCount > 0}
+                    files={sessionResults.files}
+                    downloads={sessionResults.downloads}
+                    onExport={handleExport}
+                    isDarkMode={isDarkMode}
+                  />
+                )}
+                {sessionMacro && !showStopButton && (
+                  <MacroReplay
+                    actionCount={sessionMacro.actions.length}
+                    onReplay={handleReplay}
+                    isDarkMode={isDarkMode}
+                  />
+                )}
                 <ChatInput
                   onSendMessage={handleSendMessage}
                   onStopTask={handleStopTask}
@@ -576,6 +909,11 @@ const SidePanel = () => {
                   setContent={setter => {
                     setInputTextRef.current = setter;
                   }}
+                  attachments={attachments}
+                  onAttachFiles={handleAttachFiles}
+                  onRemoveAttachment={handleRemoveAttachment}
+                  device={device}
+                  onDeviceChange={isFollowUpMode ? undefined : setDevice}
                   isDarkMode={isDarkMode}
                 />
               </div>
@@ -0,0 +1,32 @@
+interface ApprovalPromptProps {
+  onApprove: () => void;
+  onReject: () => void;
+  isDarkMode?: boolean;
+}
+
+export default function ApprovalPrompt({ onApprove, onReject, isDarkMode = false }: ApprovalPromptProps) {
+  return (
+    <div
+      className={`mb-2 flex items-center justify-between rounded-lg border px-3 py-2 ${
+        isDarkMode ? 'border-amber-700 bg-slate-800 text-gray-200' : 'border-amber-300 bg-amber-50 text-gray-700'
+      }`}
+      role="alertdialog"
+      aria-label="Action approval">
+      <span className="text-sm">The agent is waiting for your approval</span>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onReject}
+          className="rounded-md bg-red-500 px-3 py-1 text-white transition-colors hover:bg-red-600">
+          Reject
+        </button>
+        <button
+          type="button"
+          onClick={onApprove}
+          className="rounded-md bg-[#19C2FF] px-3 py-1 text-white transition-colors hover:bg-[#0073DC]">
+          Approve
+        </button>
+      </div>
+    </div>
+  );
+}
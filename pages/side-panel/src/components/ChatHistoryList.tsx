@@ -1,5 +1,7 @@
 /* eslint-disable react/prop-types */
 import { FaTrash } from 'react-icons/fa';
+import type { SessionUsage } from '@extension/storage';
+import { formatCost, formatTokenCount } from '../utils';
 
 interface ChatSession {
   id: string;
@@ -9,6 +11,7 @@ interface ChatSession {
 
 interface ChatHistoryListProps {
   sessions: ChatSession[];
+  usage: Record<string, SessionUsage>;
   onSessionSelect: (sessionId: string) => void;
   onSessionDelete: (sessionId: string) => void;
   visible: boolean;
@@ -17,6 +20,7 @@ interface ChatHistoryListProps {
 
 const ChatHistoryList: React.FC<ChatHistoryListProps> = ({
   sessions,
+  usage,
   onSessionSelect,
   onSessionDelete,
   visible,
@@ -51,6 +55,8 @@ const ChatHistoryList: React.FC<ChatHistoryListProps> = ({
                 </h3>
                 <p className={`mt-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                   {formatDate(session.createdAt)}
+                  {usage[session.id] &&
+                    ` · ${formatTokenCount(usage[session.id].total.inputTokens + usage[session.id].total.outputTokens)} tokens · ${formatCost(usage[session.id].total.cost)}`}
                 </p>
               </button>
               <button
@@ -1,4 +1,15 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { FiPaperclip, FiX } from 'react-icons/fi';
+import { DeviceEmulationEnum, type FileAttachment } from '@extension/storage';
+
+const DEVICE_LABELS: Record<DeviceEmulationEnum, string> = {
+  [DeviceEmulationEnum.None]: 'Current tab',
+  [DeviceEmulationEnum.Desktop]: 'Desktop',
+  [DeviceEmulationEnum.IPhone15Pro]: 'iPhone 15 Pro',
+  [DeviceEmulationEnum.Pixel5]: 'Pixel 5',
+  [DeviceEmulationEnum.GalaxyS9]: 'Galaxy S9+',
+  [DeviceEmulationEnum.IPadMini]: 'iPad Mini',
+};
 
 interface ChatInputProps {
   onSendMessage: (text: string) => void;
@@ -6,6 +17,13 @@ interface ChatInputProps {
   disabled: boolean;
   showStopButton: boolean;
   setContent?: (setter: (text: string) => void) => void;
+  // files the navigator can upload, attached from this input
+  attachments?: FileAttachment[];
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (id: string) => void;
+  // device the pages of the next task are emulated as, only offered for new tasks
+  device?: DeviceEmulationEnum;
+  onDeviceChange?: (device: DeviceEmulationEnum) => void;
   isDarkMode?: boolean;
 }
 
@@ -15,10 +33,25 @@ export default function ChatInput({
   disabled,
   showStopButton,
   setContent,
+  attachments = [],
+  onAttachFiles,
+  onRemoveAttachment,
+  device = DeviceEmulationEnum.None,
+  onDeviceChange,
   isDarkMode = false,
 }: ChatInputProps) {
   const [text, setText] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      onAttachFiles?.(files);
+    }
+    // allow attaching the same file again
+    e.target.value = '';
+  };
 
   // Handle text changes and resize textarea
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -96,11 +129,64 @@ export default function ChatInput({
           aria-label="Message input"
         />
 
+        {attachments.length > 0 && (
+          <div className={`flex flex-wrap gap-1 px-2 pt-1 ${isDarkMode ? 'bg-slate-800' : 'bg-white'}`}>
+            {attachments.map(attachment => (
+              <span
+                key={attachment.id}
+                className={`flex max-w-full items-center gap-1 rounded px-2 py-0.5 text-xs ${
+                  isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-sky-50 text-gray-700'
+                }`}>
+                <span className="truncate">{attachment.name}</span>
+                {onRemoveAttachment && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveAttachment(attachment.id)}
+                    className="shrink-0 hover:text-red-500"
+                    aria-label={`Remove ${attachment.name}`}>
+                    <FiX size={12} />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+
         <div
           className={`flex items-center justify-between px-2 py-1.5 ${
             disabled ? (isDarkMode ? 'bg-slate-800' : 'bg-gray-100') : isDarkMode ? 'bg-slate-800' : 'bg-white'
           }`}>
-          <div className="flex gap-2 text-gray-500">{/* Icons can go here */}</div>
+          <div className="flex gap-2 text-gray-500">
+            {onAttachFiles && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={disabled}
+                  className={`rounded p-1 transition-colors ${isDarkMode ? 'hover:text-sky-400' : 'hover:text-sky-600'} ${disabled ? 'opacity-50' : ''}`}
+                  title="Attach files the agent can upload"
+                  aria-label="Attach files">
+                  <FiPaperclip size={16} />
+                </button>
+                <input ref={fileInputRef} type="file" multiple onChange={handleFileChange} className="hidden" />
+              </>
+            )}
+            {onDeviceChange && (
+              <select
+                value={device}
+                onChange={e => onDeviceChange(e.target.value as DeviceEmulationEnum)}
+                disabled={disabled}
+                className={`rounded border-none bg-transparent text-xs focus:outline-none ${isDarkMode ? 'text-gray-400' : 'text-gray-500'} ${disabled ? 'opacity-50' : ''}`}
+                title="Device the agent emulates in the task"
+                aria-label="Emulated device">
+                {Object.values(DeviceEmulationEnum).map(value => (
+                  <option key={value} value={value}>
+                    {DEVICE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
 
           {showStopButton ? (
             <button
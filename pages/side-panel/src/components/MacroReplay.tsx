@@ -0,0 +1,24 @@
+interface MacroReplayProps {
+  actionCount: number;
+  onReplay: () => void;
+  isDarkMode?: boolean;
+}
+
+export default function MacroReplay({ actionCount, onReplay, isDarkMode = false }: MacroReplayProps) {
+  return (
+    <div
+      className={`mb-2 flex items-center justify-between rounded-lg border px-3 py-2 ${
+        isDarkMode ? 'border-sky-800 bg-slate-800 text-gray-200' : 'border-sky-200 bg-sky-50 text-gray-700'
+      }`}>
+      <span className="text-sm">
+        {actionCount} recorded {actionCount === 1 ? 'action' : 'actions'} can be replayed without the model
+      </span>
+      <button
+        type="button"
+        onClick={onReplay}
+        className="rounded-md bg-[#19C2FF] px-3 py-1 text-white transition-colors hover:bg-[#0073DC]">
+        Replay
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { type BrowserDownload, DownloadStateEnum, FileFormatEnum, type SavedFile } from '@extension/storage';
+
+interface SessionFilesProps {
+  recordCount: number;
+  canExport: boolean;
+  files: SavedFile[];
+  // files the pages downloaded while the tasks ran
+  downloads: BrowserDownload[];
+  onExport: (format: FileFormatEnum) => void;
+  isDarkMode?: boolean;
+}
+
+const EXPORT_FORMATS: { format: FileFormatEnum; label: string }[] = [
+  { format: FileFormatEnum.Markdown, label: 'MD' },
+  { format: FileFormatEnum.Json, label: 'JSON' },
+  { format: FileFormatEnum.Csv, label: 'CSV' },
+];
+
+const formatSize = (size: number) => (size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`);
+
+const DOWNLOAD_STATE_LABELS: Record<DownloadStateEnum, string> = {
+  [DownloadStateEnum.InProgress]: 'downloading',
+  [DownloadStateEnum.Complete]: 'downloaded',
+  [DownloadStateEnum.Interrupted]: 'failed',
+};
+
+export default function SessionFiles({
+  recordCount,
+  canExport,
+  files,
+  downloads,
+  onExport,
+  isDarkMode = false,
+}: SessionFilesProps) {
+  const buttonClassName = `rounded-md px-2 py-1 text-xs text-white transition-colors ${
+    isDarkMode ? 'bg-sky-700 hover:bg-sky-600' : 'bg-[#19C2FF] hover:bg-[#0073DC]'
+  }`;
+
+  return (
+    <div
+      className={`mb-2 rounded-lg border px-3 py-2 text-sm ${
+        isDarkMode ? 'border-sky-800 bg-slate-800 text-gray-200' : 'border-sky-200 bg-sky-50 text-gray-700'
+      }`}>
+      {canExport && (
+        <div className="flex items-center justify-between">
+          <span>
+            Export results
+            {recordCount > 0 && ` (${recordCount} extracted ${recordCount === 1 ? 'record' : 'records'})`}
+          </span>
+          <div className="flex gap-1">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button key={format} type="button" onClick={() => onExport(format)} className={buttonClassName}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {files.length > 0 && (
+        <ul className={canExport ? 'mt-2 space-y-1' : 'space-y-1'}>
+          {files.map(file => (
+            <li key={file.id} className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                onClick={() => chrome.downloads.show(file.downloadId)}
+                className={`truncate text-left underline ${isDarkMode ? 'text-sky-400' : 'text-sky-600'}`}
+                title="Show in folder">
+                {file.filename.split('/').pop()}
+              </button>
+              <span className={`shrink-0 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {file.savedBy === 'agent' ? 'saved by agent' : 'exported'} · {formatSize(file.size)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {downloads.length > 0 && (
+        <ul className={canExport || files.length > 0 ? 'mt-2 space-y-1' : 'space-y-1'}>
+          {downloads.map(download => (
+            <li key={download.id} className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                onClick={() => chrome.downloads.show(download.id)}
+                disabled={download.state !== DownloadStateEnum.Complete}
+                className={`truncate text-left underline disabled:no-underline ${isDarkMode ? 'text-sky-400' : 'text-sky-600'}`}
+                title={download.error ? `Failed: ${download.error}` : download.url}>
+                {download.name}
+              </button>
+              <span className={`shrink-0 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {DOWNLOAD_STATE_LABELS[download.state]}
+                {download.size > 0 && ` · ${formatSize(download.size)}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
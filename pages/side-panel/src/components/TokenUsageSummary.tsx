@@ -0,0 +1,30 @@
+import type { SessionUsage } from '@extension/storage';
+import { formatCost, formatTokenCount } from '../utils';
+
+interface TokenUsageSummaryProps {
+  usage: SessionUsage;
+  isDarkMode?: boolean;
+}
+
+export default function TokenUsageSummary({ usage, isDarkMode = false }: TokenUsageSummaryProps) {
+  const { total, agents } = usage;
+  // per agent breakdown, shown on hover
+  const breakdown = Object.entries(agents)
+    .map(
+      ([agent, agentUsage]) =>
+        `${agent}: ${formatTokenCount(agentUsage.inputTokens)} in / ${formatTokenCount(agentUsage.outputTokens)} out, ${formatCost(agentUsage.cost)}`,
+    )
+    .join('\n');
+
+  return (
+    <div
+      className={`mb-2 flex justify-between px-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+      title={breakdown}
+      aria-label="Token usage">
+      <span>
+        Tokens: {formatTokenCount(total.inputTokens)} in / {formatTokenCount(total.outputTokens)} out
+      </span>
+      <span>Cost: {formatCost(total.cost)}</span>
+    </div>
+  );
+}
@@ -17,4 +17,10 @@ export const defaultTemplates = [
     content:
       '- Go to https://huggingface.co/papers and click through each of the top 3 upvoted papers.\n- For each paper:\n  - Record the title, URL and upvotes\n  - Summarise the abstract section\n- Finally, compile together a summary of all 3 papers, ranked by upvotes',
   },
+  {
+    id: '4',
+    title: '🗂️ Collect Structured Data',
+    content:
+      'Go to https://news.ycombinator.com and extract the stories of the first 2 pages with extract_structured, using this JSON schema: {"type":"array","items":{"type":"object","properties":{"title":{"type":"string"},"url":{"type":"string"},"points":{"type":"integer"}},"required":["title","url"]}}',
+  },
 ];
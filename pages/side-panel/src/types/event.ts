@@ -40,6 +40,8 @@ export enum ExecutionState {
   ACT_START = 'act.start',
   ACT_OK = 'act.ok',
   ACT_FAIL = 'act.fail',
+  // Action is waiting for the user to approve or reject it
+  ACT_APPROVAL_REQUIRED = 'act.approval_required',
 }
 
 export interface EventData {
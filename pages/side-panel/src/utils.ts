@@ -24,3 +24,23 @@ export function getCurrentTimestampStr(): string {
     })
     .replace(',', '');
 }
+
+export function formatTokenCount(count: number): string {
+  /**
+   * Format a token count for display, e.g. 950, 12.3k or 1.5M
+   */
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`;
+  }
+  return String(count);
+}
+
+export function formatCost(cost: number): string {
+  /**
+   * Format a cost in USD for display, small costs keep more decimals
+   */
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}